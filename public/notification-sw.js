@@ -0,0 +1,20 @@
+// Handles clicks on phase notifications: focuses the app tab and forwards
+// the chosen action ("start" or "skip") to it.
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+
+  event.waitUntil((async () => {
+    const clientList = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = clientList.find(c => c.url.startsWith(self.registration.scope)) || clientList[0];
+
+    if (!client) {
+      await self.clients.openWindow('/');
+      return;
+    }
+
+    await client.focus();
+    if (event.action) {
+      client.postMessage({ type: 'notificationAction', action: event.action });
+    }
+  })());
+});
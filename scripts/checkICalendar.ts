@@ -0,0 +1,73 @@
+import assert from 'assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { expandEvents, Meeting, parseICalendar } from '../src/lib/icalendar';
+
+// Runs the fixture calendars in src/lib/__fixtures__/icalendar through the
+// parser and checks the meetings they expand to. Run with npm run check:icalendar.
+
+const FIXTURES_DIR = path.join(__dirname, '..', '..', 'src', 'lib', '__fixtures__', 'icalendar');
+
+const expandFixture = (name: string, from: Date, to: Date): Meeting[] => {
+  const text = readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+  return expandEvents(parseICalendar(text), from, to);
+};
+
+// All-day meetings start at local midnight, so they are compared by local date
+const toLocalDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const checks: Record<string, () => void> = {
+  'RRULE, EXDATE and moved occurrences': () => {
+    const meetings = expandFixture('recurring.ics', new Date('2025-01-01T00:00:00Z'), new Date('2025-05-01T00:00:00Z'));
+    assert.deepEqual(meetings.map(meeting => [meeting.start.toISOString(), meeting.summary]), [
+      ['2025-01-06T08:30:00.000Z', 'Team standup, daily'],
+      ['2025-01-13T10:00:00.000Z', 'Team standup (moved)'],
+      ['2025-01-15T08:30:00.000Z', 'Team standup, daily'],
+      ['2025-01-20T08:30:00.000Z', 'Team standup, daily'],
+      ['2025-01-22T08:30:00.000Z', 'Team standup, daily'],
+      ['2025-01-31T15:00:00.000Z', 'Monthly review on the last Friday'],
+      ['2025-02-28T15:00:00.000Z', 'Monthly review on the last Friday'],
+      ['2025-03-28T15:00:00.000Z', 'Monthly review on the last Friday']
+    ]);
+    assert.equal(meetings[0].end.toISOString(), '2025-01-06T08:45:00.000Z');
+  },
+
+  'TZID, Windows and floating time zones': () => {
+    const meetings = expandFixture('timezones.ics', new Date('2025-01-01T00:00:00Z'), new Date('2025-08-01T00:00:00Z'));
+    assert.deepEqual(meetings.map(meeting => [meeting.uid, meeting.start.toISOString(), meeting.end.toISOString()]), [
+      ['prefixed@example.com', '2025-01-14T22:00:00.000Z', '2025-01-14T23:00:00.000Z'],
+      ['dst@example.com', '2025-03-02T15:00:00.000Z', '2025-03-02T16:00:00.000Z'],
+      ['dst@example.com', '2025-03-09T14:00:00.000Z', '2025-03-09T15:00:00.000Z'],
+      ['dst@example.com', '2025-03-16T14:00:00.000Z', '2025-03-16T15:00:00.000Z'],
+      ['floating@example.com', '2025-04-01T00:00:00.000Z', '2025-04-01T00:30:00.000Z'],
+      ['outlook@example.com', '2025-07-01T12:00:00.000Z', '2025-07-01T13:00:00.000Z']
+    ]);
+  },
+
+  'All-day events': () => {
+    const meetings = expandFixture('all-day.ics', new Date(2025, 6, 1), new Date(2025, 8, 1));
+    assert.ok(meetings.every(meeting => meeting.isAllDay));
+    assert.deepEqual(meetings.map(meeting => [meeting.summary, toLocalDate(meeting.start), toLocalDate(meeting.end)]), [
+      ['Focus day', '2025-07-01', '2025-07-02'],
+      ['Holiday', '2025-07-04', '2025-07-05'],
+      ['Conference', '2025-07-10', '2025-07-13'],
+      ['Focus day', '2025-07-15', '2025-07-16'],
+      ['Birthday', '2025-08-15', '2025-08-16']
+    ]);
+  }
+};
+
+let failures = 0;
+Object.entries(checks).forEach(([name, check]) => {
+  try {
+    check();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    failures += 1;
+    console.error(`not ok - ${name}\n${error instanceof Error ? error.message : error}`);
+  }
+});
+process.exitCode = failures > 0 ? 1 : 0;
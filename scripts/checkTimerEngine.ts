@@ -0,0 +1,177 @@
+import assert from 'assert/strict';
+import type { TimerConfig, UserPreferences } from '../src/types/timer';
+import {
+  catchUpTimer,
+  completePhase,
+  createTimerState,
+  extendPhase,
+  getPhaseRecord,
+  pauseTimer,
+  resumeTimer,
+  skipPhase,
+  startPendingPhase,
+  startTimer,
+  tickTimer
+} from '../src/lib/timerEngine';
+
+// Runs the timer engine's transitions and the catch-up against a fake clock:
+// every call gets the time it happens at. Run with npm run check:timer-engine.
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+// Start of the fake clock
+const T0 = Date.UTC(2025, 0, 6, 9, 0, 0);
+
+const config: TimerConfig = {
+  focusDuration: 25,
+  breakDuration: 5,
+  longBreakDuration: 15,
+  sessionsUntilLongBreak: 4
+};
+
+const preferences: UserPreferences = {
+  theme: 'system',
+  notifications: false,
+  sound: false,
+  autoStartBreaks: false,
+  autoStartPomodoros: false,
+  autoStartCountdown: 0,
+  maxAutoStartPomodoros: 0,
+  overtime: false,
+  maxOvertime: 10,
+  dayStartHour: 0,
+  streakMinimumPomodoros: 1,
+  autoBackup: false,
+  autoBackupIntervalHours: 24,
+  autoBackupKeep: 5,
+  syncEnabled: false
+};
+
+const checks: Record<string, () => void> = {
+  'Start, tick, pause and resume': () => {
+    let state = startTimer(createTimerState(config), T0);
+    assert.equal(state.phaseEndTime, T0 + 25 * MINUTE);
+
+    state = tickTimer(state, T0 + MINUTE);
+    assert.equal(state.timeRemaining, 24 * 60);
+
+    state = pauseTimer(state, T0 + MINUTE);
+    state = tickTimer(state, T0 + 10 * MINUTE);
+    assert.equal(state.timeRemaining, 24 * 60, 'a paused timer does not count down');
+
+    state = resumeTimer(state, T0 + 10 * MINUTE);
+    assert.equal(state.phaseEndTime, T0 + 34 * MINUTE, 'the end moves by the time spent paused');
+    assert.equal(state.totalPausedTime, 9 * MINUTE);
+    assert.equal(state.pauseCount, 1);
+
+    state = tickTimer(state, T0 + 11 * MINUTE);
+    assert.equal(state.timeRemaining, 23 * 60);
+  },
+
+  'Phases cycle to a long break': () => {
+    let state = createTimerState(config);
+    let now = T0;
+    const phases = [state.currentPhase];
+    for (let i = 0; i < 8; i++) {
+      state = startTimer(state, now);
+      now = state.phaseEndTime!;
+      state = completePhase(state, config, now);
+      phases.push(state.currentPhase);
+    }
+    assert.deepEqual(phases, ['focus', 'break', 'focus', 'break', 'focus', 'break', 'focus', 'longBreak', 'focus']);
+    assert.equal(state.completedSessions, 4);
+    assert.equal(state.isRunning, false);
+  },
+
+  'Skipped and extended phases': () => {
+    const skipped = skipPhase(startTimer(createTimerState(config), T0), config, T0 + MINUTE);
+    assert.equal(skipped.currentPhase, 'break');
+    assert.equal(skipped.completedSessions, 0, 'a skipped focus phase is not counted');
+
+    const extended = extendPhase(startTimer(createTimerState(config), T0), config, 5 * 60);
+    assert.equal(extended.phaseEndTime, T0 + 30 * MINUTE);
+    assert.equal(getPhaseRecord(extended, config, T0 + 30 * MINUTE, 'completed')?.plannedDuration, 30 * 60);
+  },
+
+  'Auto-started phases': () => {
+    const focus = startTimer(createTimerState(config), T0);
+    const focusEnd = T0 + 25 * MINUTE;
+
+    const immediate = completePhase(focus, config, focusEnd, { autoStart: true, autoStartDelay: 0 });
+    assert.equal(immediate.isRunning, true);
+    assert.equal(immediate.phaseStartTime, focusEnd);
+
+    const pending = completePhase(focus, config, focusEnd, { autoStart: true, autoStartDelay: 10 });
+    assert.equal(pending.autoStartAt, focusEnd + 10 * SECOND);
+    assert.equal(startPendingPhase(pending, focusEnd + 5 * SECOND), pending, 'the countdown has not run out');
+    const started = startPendingPhase(pending, focusEnd + 20 * SECOND);
+    assert.equal(started.phaseStartTime, focusEnd + 10 * SECOND, 'the phase starts when the countdown ran out');
+  },
+
+  'Phase records': () => {
+    const state = startTimer(createTimerState(config), T0);
+    const completed = getPhaseRecord(state, config, T0 + 40 * MINUTE, 'completed');
+    assert.equal(completed?.endTime, T0 + 25 * MINUTE, 'a phase ends at its end time at the latest');
+    assert.equal(completed?.duration, 25 * 60);
+
+    const abandoned = getPhaseRecord(pauseTimer(state, T0 + 10 * MINUTE), config, T0 + 12 * MINUTE, 'abandoned');
+    assert.equal(abandoned?.duration, 10 * 60, 'time paused is not counted');
+    assert.equal(abandoned?.pausedTime, 2 * 60);
+
+    assert.equal(getPhaseRecord(createTimerState(config), config, T0, 'abandoned'), null, 'focus that never started is not recorded');
+  },
+
+  'Catch-up after the tab was closed': () => {
+    const focus = startTimer(createTimerState(config), T0);
+    const withBreaks = { ...preferences, autoStartBreaks: true };
+
+    const { state, elapsed } = catchUpTimer(focus, config, T0 + 40 * MINUTE, withBreaks);
+    assert.deepEqual(elapsed.map(record => [record.phase, record.startTime, record.endTime]), [
+      ['focus', T0, T0 + 25 * MINUTE],
+      ['break', T0 + 25 * MINUTE, T0 + 30 * MINUTE]
+    ]);
+    assert.equal(state.currentPhase, 'focus');
+    assert.equal(state.isRunning, false);
+  },
+
+  'Catch-up does not replay auto-started focus': () => {
+    const focus = startTimer(createTimerState(config), T0);
+    const unlimited = { ...preferences, autoStartBreaks: true, autoStartPomodoros: true, maxAutoStartPomodoros: 0 };
+
+    const overnight = catchUpTimer(focus, config, T0 + 12 * 60 * MINUTE, unlimited);
+    assert.deepEqual(overnight.elapsed.map(record => record.phase), ['focus', 'break']);
+    assert.equal(overnight.state.isRunning, false);
+    assert.equal(overnight.state.autoStartAt, null);
+
+    // Focus whose countdown has not run out yet still starts by itself
+    const withCountdown = { ...unlimited, autoStartCountdown: 10 };
+    const breakEnd = T0 + 30 * MINUTE;
+    const soon = catchUpTimer(focus, config, breakEnd + 5 * SECOND + 10 * SECOND, withCountdown);
+    assert.deepEqual(soon.elapsed.map(record => record.phase), ['focus', 'break']);
+    assert.equal(soon.state.autoStartAt, breakEnd + 20 * SECOND);
+  },
+
+  'Catch-up ends overtime at its limit': () => {
+    const focus = startTimer(createTimerState(config), T0);
+    const withOvertime = { ...preferences, overtime: true, maxOvertime: 10 };
+
+    const { state, elapsed } = catchUpTimer(focus, config, T0 + 60 * MINUTE, withOvertime);
+    assert.equal(elapsed.length, 1);
+    assert.equal(elapsed[0].endTime, T0 + 35 * MINUTE);
+    assert.equal(elapsed[0].overtime, 10 * 60);
+    assert.equal(state.currentPhase, 'break');
+  }
+};
+
+let failures = 0;
+Object.entries(checks).forEach(([name, check]) => {
+  try {
+    check();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    failures += 1;
+    console.error(`not ok - ${name}\n${error instanceof Error ? error.message : error}`);
+  }
+});
+process.exitCode = failures > 0 ? 1 : 0;
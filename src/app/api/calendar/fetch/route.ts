@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchPublicText } from '../../../../lib/server/publicFetch';
+
+// Loads a meeting calendar by URL for the app; most calendar servers do not
+// allow the browser to fetch them directly. Only public hosts are fetched.
+
+const FETCH_TIMEOUT = 10 * 1000;
+const MAX_SIZE = 5 * 1024 * 1024;
+
+export const GET = async (request: NextRequest) => {
+  let url: URL;
+  try {
+    // webcal:// is how calendar apps link subscriptions; it is plain HTTPS
+    url = new URL((request.nextUrl.searchParams.get('url') ?? '').replace(/^webcal:/i, 'https:'));
+  } catch {
+    return NextResponse.json({ error: 'url must be a valid address' }, { status: 400 });
+  }
+
+  const result = await fetchPublicText(url, { timeout: FETCH_TIMEOUT, maxBytes: MAX_SIZE });
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  if (!/BEGIN:VCALENDAR/i.test(result.text)) {
+    return NextResponse.json({ error: 'The address is not an iCalendar feed' }, { status: 422 });
+  }
+
+  return new NextResponse(result.text, {
+    headers: { 'Content-Type': 'text/calendar; charset=utf-8' }
+  });
+};
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { plannedBlockSchema, validateRecord } from '../../../../lib/validation';
+import { getRequestProfile } from '../../../../lib/server/syncRoute';
+import { savePlannedBlocks } from '../../../../lib/server/syncStore';
+
+// A plan never reaches past the next long break, so this is generous
+const MAX_BLOCKS = 50;
+
+// Replace the planned focus blocks shown in a profile's calendar feed:
+// POST ?profile=<id> { blocks }
+export const POST = async (request: NextRequest) => {
+  const profileId = getRequestProfile(request);
+  if (!profileId) {
+    return NextResponse.json({ error: 'profile must be a profile id' }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body is not valid JSON' }, { status: 400 });
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+  }
+
+  const { blocks } = body as { blocks?: unknown };
+  if (!Array.isArray(blocks) || blocks.length > MAX_BLOCKS) {
+    return NextResponse.json({ error: `blocks must be a list of at most ${MAX_BLOCKS}` }, { status: 400 });
+  }
+  const isValid = blocks.every(block => {
+    const result = validateRecord(block, plannedBlockSchema);
+    return result.valid && result.value.start < result.value.end;
+  });
+  if (!isValid) {
+    return NextResponse.json({ error: 'Each block needs a start before its end' }, { status: 400 });
+  }
+
+  await savePlannedBlocks(profileId, blocks);
+  return NextResponse.json({ blocks });
+};
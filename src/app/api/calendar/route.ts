@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SessionData } from '../../../lib/storage';
+import { sessionsToICalendar } from '../../../lib/exporters';
+import { getRequestProfile } from '../../../lib/server/syncRoute';
+import { getChanges, getPlannedBlocks } from '../../../lib/server/syncStore';
+
+// Subscribable feed of a profile's completed focus sessions synced to the
+// server and the focus blocks planned by its running timer: GET ?profile=<id>
+export const GET = async (request: NextRequest) => {
+  const profileId = getRequestProfile(request);
+  if (!profileId) {
+    return NextResponse.json({ error: 'profile must be a profile id' }, { status: 400 });
+  }
+
+  const now = new Date();
+  const { records } = await getChanges(profileId, 'sessions', 0);
+  const sessions = records
+    .map(record => record.value as SessionData | null)
+    .filter((session): session is SessionData => session !== null && session.phase === 'focus' && session.completed)
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+  const planned = (await getPlannedBlocks(profileId)).filter(block => new Date(block.end) > now);
+
+  return new NextResponse(sessionsToICalendar(sessions, [], now, planned), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="pomodoro.ics"',
+      'Cache-Control': 'no-store'
+    }
+  });
+};
@@ -0,0 +1,6 @@
+import { createSyncHandlers } from '../../../lib/server/syncRoute';
+
+const handlers = createSyncHandlers('config');
+
+export const GET = handlers.GET;
+export const POST = handlers.POST;
@@ -0,0 +1,10 @@
+import StatsDashboard from '../../components/features/StatsDashboard';
+
+export default function Stats() {
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-b from-zinc-900 to-zinc-800 text-white">
+      <h1 className="text-4xl font-bold mb-8">Statistics</h1>
+      <StatsDashboard />
+    </main>
+  );
+}
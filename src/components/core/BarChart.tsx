@@ -0,0 +1,81 @@
+'use client';
+
+interface BarSegment {
+  value: number;
+  className: string;  // Tailwind text color used as the fill
+}
+
+interface BarChartProps {
+  bars: { label: string; segments: BarSegment[] }[];
+  formatValue?: (value: number) => string;
+  height?: number;
+}
+
+// Dependency-free stacked bar chart drawn with SVG
+export default function BarChart({
+  bars,
+  formatValue = value => value.toString(),
+  height = 200
+}: BarChartProps) {
+  const barWidth = 24;
+  const gap = 12;
+  const labelHeight = 20;
+  const width = Math.max(bars.length * (barWidth + gap), barWidth);
+  const chartHeight = height - labelHeight;
+  const max = Math.max(1, ...bars.map(bar => bar.segments.reduce((sum, s) => sum + s.value, 0)));
+
+  return (
+    <svg
+      className="w-full"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {/* Baseline */}
+      <line
+        x1="0"
+        y1={chartHeight}
+        x2={width}
+        y2={chartHeight}
+        className="text-gray-200"
+        stroke="currentColor"
+        strokeWidth="1"
+      />
+      {bars.map((bar, i) => {
+        const x = i * (barWidth + gap) + gap / 2;
+        const total = bar.segments.reduce((sum, s) => sum + s.value, 0);
+        let y = chartHeight;
+
+        return (
+          <g key={`${bar.label}-${i}`}>
+            <title>{`${bar.label}: ${formatValue(total)}`}</title>
+            {bar.segments.map((segment, j) => {
+              const segmentHeight = (segment.value / max) * (chartHeight - 4);
+              y -= segmentHeight;
+              return (
+                <rect
+                  key={j}
+                  x={x}
+                  y={y}
+                  width={barWidth}
+                  height={segmentHeight}
+                  rx="3"
+                  className={`${segment.className} transition-all duration-1000 ease-in-out`}
+                  fill="currentColor"
+                />
+              );
+            })}
+            <text
+              x={x + barWidth / 2}
+              y={height - 4}
+              textAnchor="middle"
+              className="fill-gray-400"
+              fontSize="8"
+            >
+              {bar.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
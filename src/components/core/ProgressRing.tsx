@@ -0,0 +1,56 @@
+'use client';
+
+import { ReactNode } from 'react';
+
+interface ProgressRingProps {
+  progress: number;  // Percentage from 0 to 100
+  className?: string;  // Tailwind text color of the progress stroke
+  size?: number;
+  children?: ReactNode;
+}
+
+// Circular progress indicator matching the timer ring
+export default function ProgressRing({
+  progress,
+  className = 'text-blue-500',
+  size = 128,
+  children
+}: ProgressRingProps) {
+  const strokeWidth = 8;
+  const radius = size / 2 - strokeWidth;
+  const circumference = 2 * Math.PI * radius;
+  const clamped = Math.min(Math.max(progress, 0), 100);
+
+  return (
+    <div className="relative" style={{ width: size, height: size }}>
+      <svg className="transform -rotate-90" width={size} height={size}>
+        <circle
+          className="text-gray-200"
+          strokeWidth={strokeWidth}
+          stroke="currentColor"
+          fill="transparent"
+          r={radius}
+          cx={size / 2}
+          cy={size / 2}
+        />
+        <circle
+          className={`${className} transition-all duration-1000 ease-in-out`}
+          strokeWidth={strokeWidth}
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * ((100 - clamped) / 100)}
+          strokeLinecap="round"
+          stroke="currentColor"
+          fill="transparent"
+          r={radius}
+          cx={size / 2}
+          cy={size / 2}
+        />
+      </svg>
+      {children && (
+        <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-center">
+          {children}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import { previewImport, importData, ImportPreview } from '../../lib/storage';
+import { ImportMode } from '../../lib/merge';
+
+interface ImportPanelProps {
+  // Called after data has been imported so settings and stats can be reloaded
+  onImported: () => void;
+}
+
+const MODES: { value: ImportMode; label: string; description: string }[] = [
+  {
+    value: 'merge',
+    label: 'Merge',
+    description: 'Add new sessions and tasks. Duplicates and settings are taken from the file.'
+  },
+  {
+    value: 'skipDuplicates',
+    label: 'Skip duplicates',
+    description: 'Add only new sessions and tasks. Local duplicates and settings are kept.'
+  },
+  {
+    value: 'replace',
+    label: 'Replace',
+    description: 'Replace local history, tasks and settings with the file.'
+  }
+];
+
+const SECTION_LABELS = {
+  preferences: 'Preferences',
+  timerConfig: 'Timer',
+  goals: 'Goals'
+};
+
+export default function ImportPanel({ onImported }: ImportPanelProps) {
+  const [fileContent, setFileContent] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const reset = () => {
+    setFileContent(null);
+    setPreview(null);
+    setMode('merge');
+  };
+
+  // Read the chosen file and show what importing it would do
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow choosing the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setMessage(null);
+    const content = await file.text();
+    const result = previewImport(content);
+    if (!result.valid) {
+      reset();
+      setError(result.reason);
+      return;
+    }
+    setFileContent(content);
+    setPreview(result.preview);
+  };
+
+  const handleImport = () => {
+    if (!fileContent) return;
+    if (!importData(fileContent, mode)) {
+      setError('The backup could not be imported.');
+      return;
+    }
+    reset();
+    setMessage('Backup imported.');
+    onImported();
+  };
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+  return (
+    <div className="space-y-4">
+      <input
+        type="file"
+        accept="application/json,.json"
+        onChange={handleFileChange}
+        className="block w-full text-sm text-gray-700 file:mr-4 file:rounded-md file:border-0 file:bg-gray-100 file:px-3 file:py-1.5 file:text-sm hover:file:bg-gray-200 dark:text-gray-300 dark:file:bg-zinc-700 dark:file:text-gray-200"
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-gray-500">{message}</p>}
+
+      {preview && (
+        <div className="space-y-4 rounded-md bg-gray-50 p-4 text-sm text-gray-700 dark:bg-zinc-900 dark:text-gray-300">
+          <ul className="space-y-1">
+            <li>
+              {preview.sessions} sessions
+              {preview.duplicateSessions > 0 && ` (${preview.duplicateSessions} already here)`}
+            </li>
+            <li>
+              {preview.tasks} tasks
+              {preview.duplicateTasks > 0 && ` (${preview.duplicateTasks} already here)`}
+            </li>
+            {preview.dateRange && (
+              <li>
+                From {formatDate(preview.dateRange.start)} to {formatDate(preview.dateRange.end)}
+              </li>
+            )}
+            {preview.invalidRecords > 0 && (
+              <li className="text-yellow-600">
+                {preview.invalidRecords} invalid {preview.invalidRecords === 1 ? 'record' : 'records'} will be set aside
+              </li>
+            )}
+          </ul>
+
+          {preview.changes.length > 0 && (
+            <div>
+              <p className="font-medium">Settings that differ</p>
+              <ul className="mt-1 space-y-1 text-xs">
+                {preview.changes.map(change => (
+                  <li key={`${change.section}.${change.field}`}>
+                    {SECTION_LABELS[change.section]} {change.field}: {String(change.current)} → {String(change.incoming)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {MODES.map(option => (
+              <label key={option.value} className="flex items-start space-x-2">
+                <input
+                  type="radio"
+                  name="importMode"
+                  value={option.value}
+                  checked={mode === option.value}
+                  onChange={() => setMode(option.value)}
+                  className="mt-0.5 h-4 w-4 border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-zinc-600"
+                />
+                <span>
+                  <span className="font-medium">{option.label}</span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={handleImport}
+              className="rounded-md bg-blue-600 px-3 py-1.5 text-sm text-white hover:bg-blue-700"
+            >
+              Import
+            </button>
+            <button
+              type="button"
+              onClick={reset}
+              className="rounded-md bg-gray-100 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-200 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
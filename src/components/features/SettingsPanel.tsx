@@ -1,9 +1,71 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { TimerConfig, UserPreferences } from '../../types/timer';
+import {
+  FlowtimeBreakStep,
+  FlowtimeConfig,
+  FocusGoals,
+  PhaseColor,
+  PhaseDefinition,
+  PhaseSound,
+  TimerConfig,
+  TimerDurations,
+  TimerMode,
+  TimerPreset,
+  UserPreferences
+} from '../../types/timer';
 import Modal from '../core/Modal';
-import { getPreferences, savePreferences, getTimerConfig, saveTimerConfig } from '../../lib/storage';
+import ImportPanel from './ImportPanel';
+import UpgradePrompt from './UpgradePrompt';
+import { useFeature, useSubscription } from '../../hooks/useFeature';
+import { TIERS, TIER_NAMES } from '../../lib/entitlements';
+import { getClassicSequence, getFlowtimeConfig, getTimerMode } from '../../lib/timerEngine';
+import { getBillingProvider } from '../../lib/billing';
+import {
+  getPreferences,
+  savePreferences,
+  getTimerConfig,
+  saveTimerConfig,
+  getGoals,
+  saveGoals,
+  getSessions,
+  getTasks,
+  exportData,
+  clearAllData,
+  getBackups,
+  createBackup,
+  restoreBackup,
+  getCalendar,
+  removeCalendar,
+  getUserPresets,
+  createPreset,
+  deletePreset,
+  BackupSnapshot
+} from '../../lib/storage';
+import { PhaseFilter, getDayKey } from '../../lib/analytics';
+import {
+  downloadFile,
+  filterSessions,
+  sessionsToCsv,
+  sessionsToICalendar
+} from '../../lib/exporters';
+import { SyncStatus, getSyncStatus, syncNow } from '../../lib/sync';
+import { CalendarImportResult, getCalendarFeedUrl, getMeetings, importCalendar, subscribeToCalendar } from '../../lib/calendar';
+import type { StoredCalendar } from '../../types/calendar';
+import {
+  NotificationPermissionState,
+  getNotificationPermission,
+  requestNotificationPermission
+} from '../../lib/notifications';
+
+const PHASE_COLORS: PhaseColor[] = ['blue', 'green', 'purple', 'orange', 'red', 'teal', 'pink', 'gray'];
+
+const PHASE_SOUND_NAMES: Record<PhaseSound, string> = {
+  high: 'High chime',
+  medium: 'Medium chime',
+  low: 'Low chime',
+  none: 'No sound'
+};
 
 interface SettingsPanelProps {
   isOpen: boolean;
@@ -15,6 +77,36 @@ export default function SettingsPanel({ isOpen, onClose, onSettingsChange }: Set
   // Timer configuration state
   const [config, setConfig] = useState<TimerConfig>(getTimerConfig());
   const [preferences, setPreferences] = useState<UserPreferences>(getPreferences());
+  const [goals, setGoals] = useState<FocusGoals>(getGoals());
+
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermissionState>('default');
+
+  // Session export filters; dates are YYYY-MM-DD from the date inputs
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
+  const [exportPhase, setExportPhase] = useState<PhaseFilter>('all');
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+
+  // Stored snapshots and the erase confirmation step
+  const [backups, setBackups] = useState<BackupSnapshot[]>([]);
+  const [isConfirmingErase, setIsConfirmingErase] = useState(false);
+  const [dataMessage, setDataMessage] = useState<string | null>(null);
+
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const { subscription, tier } = useSubscription();
+  const canCustomizeDurations = useFeature('customTimerDurations');
+  const [planMessage, setPlanMessage] = useState<string | null>(null);
+
+  const [userPresets, setUserPresets] = useState<TimerPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+
+  const hasCalendarSync = useFeature('calendarSync');
+  const [calendar, setCalendar] = useState<StoredCalendar | null>(null);
+  const [calendarUrl, setCalendarUrl] = useState('');
+  const [isLoadingCalendar, setIsLoadingCalendar] = useState(false);
+  const [calendarMessage, setCalendarMessage] = useState<string | null>(null);
 
   // Form validation state
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -25,19 +117,32 @@ export default function SettingsPanel({ isOpen, onClose, onSettingsChange }: Set
       const savedConfig = getTimerConfig();
       setConfig(savedConfig);
       setPreferences(getPreferences());
+      setGoals(getGoals());
+      setNotificationPermission(getNotificationPermission());
+      setExportMessage(null);
+      setBackups(getBackups());
+      setIsConfirmingErase(false);
+      setDataMessage(null);
+      setSyncStatus(getSyncStatus());
+      setPlanMessage(null);
+      setCalendar(getCalendar());
+      setCalendarMessage(null);
+      setUserPresets(getUserPresets());
+      setPresetName('');
     }
   }, [isOpen]);
 
   // Handle input change for timer durations
-  const handleDurationChange = (field: keyof TimerConfig) => (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleDurationChange = (field: keyof TimerDurations) => (e: React.ChangeEvent<HTMLInputElement>) => {
     // Remove any leading zeros and handle empty string
     const cleanValue = e.target.value.replace(/^0+(?=\d)/, '') || '0';
     const numValue = parseFloat(cleanValue);
 
-    // Update config with the cleaned numeric value
+    // Update config with the cleaned numeric value; edited durations no longer follow a preset
     const newConfig = {
       ...config,
-      [field]: numValue
+      [field]: numValue,
+      presetId: null
     };
 
     // Save immediately to ensure value persists
@@ -83,6 +188,282 @@ export default function SettingsPanel({ isOpen, onClose, onSettingsChange }: Set
     onSettingsChange();
   };
 
+  // Handle numeric preference inputs
+  const handleNumberPreferenceChange = (
+    field:
+      | 'autoStartCountdown'
+      | 'maxAutoStartPomodoros'
+      | 'maxOvertime'
+      | 'dayStartHour'
+      | 'streakMinimumPomodoros'
+      | 'autoBackupIntervalHours'
+      | 'autoBackupKeep'
+  ) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const numValue = Math.max(0, parseInt(e.target.value, 10) || 0);
+    const newPreferences = {
+      ...preferences,
+      [field]: numValue
+    };
+    setPreferences(newPreferences);
+    savePreferences(newPreferences);
+    onSettingsChange();
+  };
+
+  // Handle goal changes
+  const handleGoalChange = (field: keyof FocusGoals) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.type === 'checkbox'
+      ? e.target.checked
+      : Math.max(0, parseFloat(e.target.value) || 0);
+
+    const newGoals = {
+      ...goals,
+      [field]: value
+    };
+    setGoals(newGoals);
+    saveGoals(newGoals);
+    onSettingsChange();
+  };
+
+  // Ask for notification permission before turning browser notifications on
+  const handleNotificationsChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    let enabled = e.target.checked;
+
+    if (enabled) {
+      const permission = await requestNotificationPermission();
+      setNotificationPermission(permission);
+      enabled = permission === 'granted';
+    }
+
+    const newPreferences = {
+      ...preferences,
+      notifications: enabled
+    };
+    setPreferences(newPreferences);
+    savePreferences(newPreferences);
+    onSettingsChange();
+  };
+
+  // Local midnight of a date input value, optionally a number of days later
+  const parseDateInput = (value: string, addDays = 0): Date | null => {
+    if (!value) return null;
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day + addDays);
+  };
+
+  // Download the filtered session history as CSV or iCalendar
+  const handleExport = (format: 'csv' | 'ics') => {
+    const sessions = filterSessions(getSessions(), {
+      from: parseDateInput(exportFrom),
+      // The end date is inclusive in the form
+      to: parseDateInput(exportTo, 1),
+      phase: exportPhase
+    });
+    if (sessions.length === 0) {
+      setExportMessage('No sessions match these filters.');
+      return;
+    }
+
+    const filename = `pomodoro-sessions-${getDayKey(new Date())}`;
+    if (format === 'csv') {
+      downloadFile(`${filename}.csv`, sessionsToCsv(sessions, getTasks()), 'text/csv');
+    } else {
+      downloadFile(`${filename}.ics`, sessionsToICalendar(sessions, getTasks()), 'text/calendar');
+    }
+    setExportMessage(`Exported ${sessions.length} ${sessions.length === 1 ? 'session' : 'sessions'}.`);
+  };
+
+  // Reload settings that an import may have changed
+  const handleImported = () => {
+    setConfig(getTimerConfig());
+    setPreferences(getPreferences());
+    setGoals(getGoals());
+    setBackups(getBackups());
+    onSettingsChange();
+  };
+
+  // Download everything as a timestamped JSON backup
+  const handleDownloadBackup = () => {
+    const timestamp = new Date().toISOString().slice(0, 16).replace(':', '-');
+    downloadFile(`pomodoro-backup-${timestamp}.json`, exportData(), 'application/json');
+  };
+
+  const handleCreateSnapshot = () => {
+    createBackup('manual');
+    setBackups(getBackups());
+    setDataMessage('Snapshot saved.');
+  };
+
+  const handleRestoreSnapshot = (snapshot: BackupSnapshot) => {
+    if (!window.confirm(`Replace all data with the snapshot from ${new Date(snapshot.createdAt).toLocaleString()}?`)) {
+      return;
+    }
+    if (restoreBackup(snapshot.id)) {
+      setDataMessage('Snapshot restored.');
+      handleImported();
+    } else {
+      setDataMessage('The snapshot could not be restored.');
+    }
+  };
+
+  const handleErase = () => {
+    clearAllData();
+    setIsConfirmingErase(false);
+    setDataMessage('All data erased.');
+    handleImported();
+  };
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    await syncNow();
+    setIsSyncing(false);
+    setSyncStatus(getSyncStatus());
+    handleImported();
+  };
+
+  const handlePlanChange = async (change: () => Promise<unknown>, message: string) => {
+    try {
+      await change();
+      setPlanMessage(message);
+    } catch (error) {
+      setPlanMessage(error instanceof Error ? error.message : 'The plan could not be changed.');
+    }
+  };
+
+  // Switch between pomodoros and Flowtime
+  const handleModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    saveTimerConfig({ ...config, mode: e.target.value as TimerMode });
+    setConfig(getTimerConfig());
+    onSettingsChange();
+  };
+
+  // Save changed Flowtime settings right away
+  const saveFlowtime = (changes: Partial<FlowtimeConfig>) => {
+    saveTimerConfig({ ...config, flowtime: { ...getFlowtimeConfig(config), ...changes } });
+    setConfig(getTimerConfig());
+    onSettingsChange();
+  };
+
+  // Number fields are only saved while they hold a usable value
+  const handleFlowtimeNumberChange = (field: 'breakRatio' | 'maxBreak' | 'target', min: number) => (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const value = parseFloat(e.target.value);
+    if (value >= min) saveFlowtime({ [field]: value });
+  };
+
+  const handleBreakStepChange = (index: number, changes: Partial<FlowtimeBreakStep>) => {
+    if (Object.values(changes).some(value => !(value >= 0))) return;
+    saveFlowtime({
+      breakTable: getFlowtimeConfig(config).breakTable.map((step, i) => (i === index ? { ...step, ...changes } : step))
+    });
+  };
+
+  const handleBreakStepRemove = (index: number) => {
+    saveFlowtime({ breakTable: getFlowtimeConfig(config).breakTable.filter((_, i) => i !== index) });
+  };
+
+  const handleBreakStepAdd = () => {
+    const { breakTable } = getFlowtimeConfig(config);
+    const last = breakTable[breakTable.length - 1];
+    saveFlowtime({
+      breakTable: [...breakTable, last
+        ? { focusMinutes: last.focusMinutes + 30, breakMinutes: last.breakMinutes + 5 }
+        : { focusMinutes: 25, breakMinutes: 5 }]
+    });
+  };
+
+  // Save a changed phase sequence right away, like the durations; null returns to the classic cycle
+  const saveSequence = (sequence: PhaseDefinition[] | null) => {
+    saveTimerConfig({ ...config, sequence, presetId: null });
+    setConfig(getTimerConfig());
+    onSettingsChange();
+  };
+
+  const handleSequenceToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    saveSequence(e.target.checked ? getClassicSequence(config) : null);
+  };
+
+  const handlePhaseChange = (index: number, changes: Partial<PhaseDefinition>) => {
+    if (changes.duration !== undefined && !(changes.duration > 0)) return;
+    saveSequence((config.sequence ?? []).map((phase, i) => (i === index ? { ...phase, ...changes } : phase)));
+  };
+
+  const handlePhaseMove = (index: number, offset: number) => {
+    const sequence = [...(config.sequence ?? [])];
+    const [phase] = sequence.splice(index, 1);
+    sequence.splice(index + offset, 0, phase);
+    saveSequence(sequence);
+  };
+
+  const handlePhaseRemove = (index: number) => {
+    saveSequence((config.sequence ?? []).filter((_, i) => i !== index));
+  };
+
+  const handlePhaseAdd = () => {
+    saveSequence([
+      ...(config.sequence ?? []),
+      { id: crypto.randomUUID(), name: 'Focus', duration: 25, color: 'blue', sound: 'high', countsAsFocus: true }
+    ]);
+  };
+
+  // Save the current durations as a preset and switch to it
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!presetName.trim()) return;
+    const preset = createPreset(presetName, config);
+    const newConfig = { ...config, presetId: preset.id };
+    saveTimerConfig(newConfig);
+    setConfig(newConfig);
+    setUserPresets(getUserPresets());
+    setPresetName('');
+    onSettingsChange();
+  };
+
+  const handleDeletePreset = (preset: TimerPreset) => {
+    if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    deletePreset(preset.id);
+    setUserPresets(getUserPresets());
+    onSettingsChange();
+  };
+
+  const showCalendarResult = (result: CalendarImportResult) => {
+    setCalendar(getCalendar());
+    setCalendarMessage(result.valid
+      ? `Imported ${result.eventCount} ${result.eventCount === 1 ? 'event' : 'events'}.`
+      : result.reason);
+  };
+
+  const handleCalendarFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow choosing the same file again
+    e.target.value = '';
+    if (!file) return;
+    showCalendarResult(importCalendar({ type: 'file', name: file.name }, await file.text()));
+  };
+
+  const handleCalendarSubscribe = async () => {
+    setIsLoadingCalendar(true);
+    const result = await subscribeToCalendar(calendarUrl.trim());
+    setIsLoadingCalendar(false);
+    showCalendarResult(result);
+    if (result.valid) setCalendarUrl('');
+  };
+
+  const handleCalendarRemove = () => {
+    removeCalendar();
+    setCalendar(null);
+    setCalendarMessage('Meetings removed.');
+  };
+
+  // Number of timed meetings in the coming week, to show the import worked
+  const getUpcomingMeetingCount = () => {
+    const now = new Date();
+    const weekAhead = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+    return getMeetings(now, weekAhead).filter(meeting => !meeting.isAllDay).length;
+  };
+
   // Save settings
   const handleSave = () => {
     // Validate all fields
@@ -91,6 +472,7 @@ export default function SettingsPanel({ isOpen, onClose, onSettingsChange }: Set
     // Save all changes one final time
     saveTimerConfig(config);
     savePreferences(preferences);
+    saveGoals(goals);
     onSettingsChange();
 
     // Close the modal
@@ -105,10 +487,141 @@ export default function SettingsPanel({ isOpen, onClose, onSettingsChange }: Set
       onSave={handleSave}
     >
       <div className="space-y-6">
+        {/* Timer Mode */}
+        <section>
+          <h3 className="mb-4 text-lg font-medium dark:text-white">Timer Mode</h3>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Mode
+              </label>
+              <select
+                value={getTimerMode(config)}
+                onChange={handleModeChange}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+              >
+                <option value="pomodoro">Pomodoro: fixed focus and break lengths</option>
+                <option value="flowtime">Flowtime: focus counts up, breaks are earned</option>
+              </select>
+            </div>
+            {getTimerMode(config) === 'flowtime' && (
+              <>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Focus Target (minutes)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={getFlowtimeConfig(config).target}
+                      onChange={handleFlowtimeNumberChange('target', 0)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">Shown on the progress ring; focus keeps going past it. 0 for none.</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Longest Break (minutes)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={getFlowtimeConfig(config).maxBreak}
+                      onChange={handleFlowtimeNumberChange('maxBreak', 0)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">0 for no cap.</p>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Earned Break
+                  </label>
+                  <select
+                    value={getFlowtimeConfig(config).breakRule}
+                    onChange={e => saveFlowtime({ breakRule: e.target.value as FlowtimeConfig['breakRule'] })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                  >
+                    <option value="ratio">A share of the focus time</option>
+                    <option value="table">From a table of focus lengths</option>
+                  </select>
+                </div>
+                {getFlowtimeConfig(config).breakRule === 'ratio' ? (
+                  <div className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                    <span>Focus time divided by</span>
+                    <input
+                      type="number"
+                      min="1"
+                      step="0.5"
+                      value={getFlowtimeConfig(config).breakRatio}
+                      onChange={handleFlowtimeNumberChange('breakRatio', 1)}
+                      aria-label="Break ratio"
+                      className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                    />
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <ul className="space-y-2">
+                      {getFlowtimeConfig(config).breakTable.map((step, index) => (
+                        <li key={index} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                          <span>Up to</span>
+                          <input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={step.focusMinutes}
+                            onChange={e => handleBreakStepChange(index, { focusMinutes: parseFloat(e.target.value) })}
+                            aria-label="Focus minutes"
+                            className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                          />
+                          <span>min focus earns</span>
+                          <input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={step.breakMinutes}
+                            onChange={e => handleBreakStepChange(index, { breakMinutes: parseFloat(e.target.value) })}
+                            aria-label="Break minutes"
+                            className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                          />
+                          <span>min</span>
+                          <button
+                            type="button"
+                            onClick={() => handleBreakStepRemove(index)}
+                            className="text-xs text-red-600 hover:text-red-700"
+                          >
+                            Remove
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-gray-500">Longer focus earns the last break in the table.</p>
+                    <button
+                      type="button"
+                      onClick={handleBreakStepAdd}
+                      className="rounded-md bg-gray-100 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-200 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+                    >
+                      Add Step
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </section>
+
         {/* Timer Durations */}
         <section>
           <h3 className="mb-4 text-lg font-medium dark:text-white">Timer Durations</h3>
-          <div className="grid gap-4 sm:grid-cols-2">
+          {!canCustomizeDurations && (
+            <div className="mb-4">
+              <UpgradePrompt feature="customTimerDurations" description="custom timer durations" />
+            </div>
+          )}
+          <fieldset disabled={!canCustomizeDurations} className="grid gap-4 disabled:opacity-50 sm:grid-cols-2">
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                 Focus Duration (minutes)
@@ -190,7 +703,164 @@ export default function SettingsPanel({ isOpen, onClose, onSettingsChange }: Set
                 <p className="mt-1 text-sm text-red-600">{errors.sessionsUntilLongBreak}</p>
               )}
             </div>
-          </div>
+          </fieldset>
+          <fieldset disabled={!canCustomizeDurations} className="mt-4 space-y-2 disabled:opacity-50">
+            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">My Presets</h4>
+            {userPresets.length > 0 && (
+              <ul className="space-y-1">
+                {userPresets.map(preset => (
+                  <li key={preset.id} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                    <span>
+                      {preset.name}
+                      <span className="ml-2 text-xs text-gray-500">
+                        {preset.focusDuration}/{preset.breakDuration}/{preset.longBreakDuration} min, long break every {preset.sessionsUntilLongBreak}
+                      </span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleDeletePreset(preset)}
+                      className="text-xs text-red-600 hover:text-red-700"
+                    >
+                      Delete
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <form onSubmit={handleSavePreset} className="flex space-x-2">
+              <input
+                type="text"
+                value={presetName}
+                onChange={e => setPresetName(e.target.value)}
+                placeholder="Preset name"
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+              />
+              <button
+                type="submit"
+                disabled={!presetName.trim() || Object.keys(errors).length > 0}
+                className="whitespace-nowrap rounded-md bg-gray-100 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-200 disabled:opacity-50 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+              >
+                Save Durations as Preset
+              </button>
+            </form>
+            <p className="text-xs text-gray-500">Switch presets from the timer screen.</p>
+          </fieldset>
+        </section>
+
+        {/* Phase Sequence */}
+        <section>
+          <h3 className="mb-4 text-lg font-medium dark:text-white">Phase Sequence</h3>
+          <fieldset disabled={!canCustomizeDurations} className="space-y-4 disabled:opacity-50">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Use a Custom Sequence
+              </label>
+              <input
+                type="checkbox"
+                checked={Boolean(config.sequence?.length)}
+                onChange={handleSequenceToggle}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-zinc-600"
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              Run your own cycle of phases instead of focus, break and long break. The durations above are not used while it is on.
+            </p>
+            {config.sequence && config.sequence.length > 0 && (
+              <>
+                <ol className="space-y-3">
+                  {config.sequence.map((phase, index, sequence) => (
+                    <li key={phase.id} className="space-y-2 rounded-md border border-gray-200 p-3 dark:border-zinc-700">
+                      <div className="flex items-center space-x-2">
+                        <span className="w-5 text-xs text-gray-500">{index + 1}.</span>
+                        <input
+                          type="text"
+                          value={phase.name}
+                          onChange={e => handlePhaseChange(index, { name: e.target.value })}
+                          placeholder="Phase name"
+                          aria-label="Phase name"
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                        />
+                        <input
+                          type="number"
+                          min="0.1"
+                          step="0.1"
+                          value={phase.duration}
+                          onChange={e => handlePhaseChange(index, { duration: parseFloat(e.target.value) })}
+                          aria-label="Duration in minutes"
+                          className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                        />
+                        <span className="text-xs text-gray-500">min</span>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 pl-7 text-sm">
+                        <select
+                          value={phase.color}
+                          onChange={e => handlePhaseChange(index, { color: e.target.value as PhaseColor })}
+                          aria-label="Color"
+                          className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                        >
+                          {PHASE_COLORS.map(color => (
+                            <option key={color} value={color}>{color.charAt(0).toUpperCase() + color.slice(1)}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={phase.sound}
+                          onChange={e => handlePhaseChange(index, { sound: e.target.value as PhaseSound })}
+                          aria-label="Sound"
+                          className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                        >
+                          {(Object.keys(PHASE_SOUND_NAMES) as PhaseSound[]).map(sound => (
+                            <option key={sound} value={sound}>{PHASE_SOUND_NAMES[sound]}</option>
+                          ))}
+                        </select>
+                        <label className="flex items-center space-x-1 text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={phase.countsAsFocus}
+                            onChange={e => handlePhaseChange(index, { countsAsFocus: e.target.checked })}
+                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-zinc-600"
+                          />
+                          <span>Counts as focus</span>
+                        </label>
+                        <div className="ml-auto flex space-x-2 text-xs">
+                          <button
+                            type="button"
+                            onClick={() => handlePhaseMove(index, -1)}
+                            disabled={index === 0}
+                            className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                          >
+                            Up
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handlePhaseMove(index, 1)}
+                            disabled={index === sequence.length - 1}
+                            className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                          >
+                            Down
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handlePhaseRemove(index)}
+                            disabled={sequence.length === 1}
+                            className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+                <button
+                  type="button"
+                  onClick={handlePhaseAdd}
+                  className="rounded-md bg-gray-100 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-200 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+                >
+                  Add Phase
+                </button>
+              </>
+            )}
+          </fieldset>
         </section>
 
         {/* Theme Settings */}
@@ -238,12 +908,23 @@ export default function SettingsPanel({ isOpen, onClose, onSettingsChange }: Set
               <div className="relative inline-flex items-center">
                 <input
                   type="checkbox"
-                  checked={preferences.notifications}
-                  onChange={handlePreferenceChange('notifications')}
-                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-zinc-600"
+                  checked={preferences.notifications && notificationPermission === 'granted'}
+                  disabled={notificationPermission === 'unsupported'}
+                  onChange={handleNotificationsChange}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50 dark:border-zinc-600"
                 />
               </div>
             </div>
+            {notificationPermission === 'denied' && (
+              <p className="text-sm text-red-600">
+                Notifications are blocked. Allow them for this site in your browser settings.
+              </p>
+            )}
+            {notificationPermission === 'unsupported' && (
+              <p className="text-sm text-gray-500">
+                This browser does not support notifications.
+              </p>
+            )}
           </div>
         </section>
 
@@ -277,8 +958,532 @@ export default function SettingsPanel({ isOpen, onClose, onSettingsChange }: Set
                 />
               </div>
             </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Countdown Before Auto-start (seconds)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={preferences.autoStartCountdown}
+                  onChange={handleNumberPreferenceChange('autoStartCountdown')}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                />
+                <p className="mt-1 text-xs text-gray-500">0 starts the next phase immediately</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Max Pomodoros Auto-started in a Row
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={preferences.maxAutoStartPomodoros}
+                  onChange={handleNumberPreferenceChange('maxAutoStartPomodoros')}
+                  disabled={!preferences.autoStartPomodoros}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:opacity-50 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                />
+                <p className="mt-1 text-xs text-gray-500">0 for no limit</p>
+              </div>
+            </div>
+          </div>
+        </section>
+
+        {/* Overtime */}
+        <section>
+          <h3 className="mb-4 text-lg font-medium dark:text-white">Overtime</h3>
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Let Focus Run Past Zero
+              </label>
+              <div className="relative inline-flex items-center">
+                <input
+                  type="checkbox"
+                  checked={preferences.overtime}
+                  onChange={handlePreferenceChange('overtime')}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-zinc-600"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              The timer counts overtime until you start the break, so you can finish your thought.
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Max Overtime (minutes)
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={preferences.maxOvertime}
+                onChange={handleNumberPreferenceChange('maxOvertime')}
+                disabled={!preferences.overtime}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:opacity-50 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+              />
+              <p className="mt-1 text-xs text-gray-500">The break starts by itself after this long. 0 for no limit</p>
+            </div>
+          </div>
+        </section>
+
+        {/* Goal Settings */}
+        <section>
+          <h3 className="mb-4 text-lg font-medium dark:text-white">Goals</h3>
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Daily Goal (pomodoros)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={goals.dailyPomodoros}
+                  onChange={handleGoalChange('dailyPomodoros')}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Weekly Goal (focus hours)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={goals.weeklyFocusHours}
+                  onChange={handleGoalChange('weeklyFocusHours')}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">Set a goal to 0 to turn it off</p>
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Streak Requires Daily Goal
+              </label>
+              <div className="relative inline-flex items-center">
+                <input
+                  type="checkbox"
+                  checked={goals.streakFromDailyGoal}
+                  disabled={goals.dailyPomodoros === 0}
+                  onChange={handleGoalChange('streakFromDailyGoal')}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50 dark:border-zinc-600"
+                />
+              </div>
+            </div>
+          </div>
+        </section>
+
+        {/* Streak Settings */}
+        <section>
+          <h3 className="mb-4 text-lg font-medium dark:text-white">Streaks</h3>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Day Starts At
+              </label>
+              <select
+                value={preferences.dayStartHour}
+                onChange={handleNumberPreferenceChange('dayStartHour')}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>
+                    {hour.toString().padStart(2, '0')}:00
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Sessions before this hour count for the previous day</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Daily Minimum (pomodoros)
+              </label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={preferences.streakMinimumPomodoros}
+                onChange={handleNumberPreferenceChange('streakMinimumPomodoros')}
+                disabled={goals.streakFromDailyGoal && goals.dailyPomodoros > 0}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:opacity-50 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                {goals.streakFromDailyGoal && goals.dailyPomodoros > 0
+                  ? 'Using the daily goal'
+                  : 'Pomodoros needed for a day to keep the streak'}
+              </p>
+            </div>
+          </div>
+        </section>
+
+        {/* Export Settings */}
+        <section>
+          <h3 className="mb-4 text-lg font-medium dark:text-white">Export</h3>
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  From
+                </label>
+                <input
+                  type="date"
+                  value={exportFrom}
+                  onChange={e => setExportFrom(e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  To
+                </label>
+                <input
+                  type="date"
+                  value={exportTo}
+                  onChange={e => setExportTo(e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Phase
+                </label>
+                <select
+                  value={exportPhase}
+                  onChange={e => setExportPhase(e.target.value as PhaseFilter)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                >
+                  <option value="all">All phases</option>
+                  <option value="focus">Focus</option>
+                  <option value="break">Break</option>
+                  <option value="longBreak">Long break</option>
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">Leave the dates empty to export all history</p>
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={() => handleExport('csv')}
+                className="rounded-md bg-gray-100 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-200 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+              >
+                Download CSV
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExport('ics')}
+                className="rounded-md bg-gray-100 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-200 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+              >
+                Download Calendar (.ics)
+              </button>
+            </div>
+            {exportMessage && (
+              <p className="text-sm text-gray-500">{exportMessage}</p>
+            )}
+          </div>
+        </section>
+
+        {/* Data Settings */}
+        <section>
+          <h3 className="mb-4 text-lg font-medium dark:text-white">Data</h3>
+          <div className="space-y-6">
+            <div>
+              <h4 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">Backup</h4>
+              <button
+                type="button"
+                onClick={handleDownloadBackup}
+                className="rounded-md bg-gray-100 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-200 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+              >
+                Download Backup
+              </button>
+            </div>
+
+            <div>
+              <h4 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">Restore</h4>
+              <ImportPanel onImported={handleImported} />
+            </div>
+
+            <div className="space-y-4">
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Snapshots</h4>
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Scheduled Snapshots
+                </label>
+                <div className="relative inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={preferences.autoBackup}
+                    onChange={handlePreferenceChange('autoBackup')}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-zinc-600"
+                  />
+                </div>
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Every (hours)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={preferences.autoBackupIntervalHours}
+                    onChange={handleNumberPreferenceChange('autoBackupIntervalHours')}
+                    disabled={!preferences.autoBackup}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:opacity-50 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Snapshots Kept
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={preferences.autoBackupKeep}
+                    onChange={handleNumberPreferenceChange('autoBackupKeep')}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                With scheduled snapshots on, a snapshot is also taken before every import
+              </p>
+              {backups.length > 0 && (
+                <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                  {backups.map(snapshot => (
+                    <li key={snapshot.id} className="flex items-center justify-between">
+                      <span>
+                        {new Date(snapshot.createdAt).toLocaleString()}
+                        <span className="ml-2 text-xs text-gray-500">
+                          {snapshot.reason === 'beforeImport' ? 'before import' : snapshot.reason}
+                        </span>
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleRestoreSnapshot(snapshot)}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        Restore
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <button
+                type="button"
+                onClick={handleCreateSnapshot}
+                className="rounded-md bg-gray-100 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-200 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+              >
+                Take Snapshot Now
+              </button>
+            </div>
+
+            <div>
+              <h4 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">Erase</h4>
+              {isConfirmingErase ? (
+                <div className="space-y-2 rounded-md bg-red-50 p-3 dark:bg-red-900/20">
+                  <p className="text-sm text-red-600">
+                    This deletes all sessions, tasks, settings and snapshots. Download a backup first if you may need them.
+                  </p>
+                  <div className="flex space-x-2">
+                    <button
+                      type="button"
+                      onClick={handleErase}
+                      className="rounded-md bg-red-600 px-3 py-1.5 text-sm text-white hover:bg-red-700"
+                    >
+                      Erase Everything
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setIsConfirmingErase(false)}
+                      className="rounded-md bg-gray-100 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-200 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setIsConfirmingErase(true)}
+                  className="rounded-md px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                >
+                  Erase All Data
+                </button>
+              )}
+            </div>
+
+            {dataMessage && (
+              <p className="text-sm text-gray-500">{dataMessage}</p>
+            )}
+          </div>
+        </section>
+
+        {/* Plan Settings */}
+        <section>
+          <h3 className="mb-4 text-lg font-medium dark:text-white">Plan</h3>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {TIER_NAMES[tier]}
+              {subscription.trial && tier === subscription.trial.tier && (
+                <span className="ml-2 text-xs text-gray-500">
+                  Trial ends {new Date(subscription.trial.endsAt).toLocaleDateString()}
+                </span>
+              )}
+              {subscription.expiresAt && tier === subscription.tier && (
+                <span className="ml-2 text-xs text-gray-500">
+                  Paid until {new Date(subscription.expiresAt).toLocaleDateString()}
+                </span>
+              )}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {/* The tier already paid for and in effect is left out */}
+              {TIERS.filter(option => option !== subscription.tier || option !== tier).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => handlePlanChange(
+                    () => getBillingProvider().changeTier(option),
+                    `Switched to ${TIER_NAMES[option]}.`
+                  )}
+                  className="rounded-md bg-gray-100 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-200 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+                >
+                  {option === 'free' ? 'Switch to Free' : `Get ${TIER_NAMES[option]}`}
+                </button>
+              ))}
+            </div>
+            {planMessage && (
+              <p className="text-sm text-gray-500">{planMessage}</p>
+            )}
+          </div>
+        </section>
+
+        {/* Sync Settings */}
+        <section>
+          <h3 className="mb-4 text-lg font-medium dark:text-white">Sync</h3>
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Sync Across Devices
+              </label>
+              <div className="relative inline-flex items-center">
+                <input
+                  type="checkbox"
+                  checked={preferences.syncEnabled}
+                  onChange={handlePreferenceChange('syncEnabled')}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-zinc-600"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Sessions, timer durations and preferences are kept in step with the server. Changes made offline are sent once you reconnect.
+            </p>
+            {syncStatus && (
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                {syncStatus.lastSyncedAt
+                  ? `Last synced ${new Date(syncStatus.lastSyncedAt).toLocaleString()}`
+                  : 'Not synced yet'}
+                {syncStatus.pendingChanges > 0 && (
+                  <span className="ml-2 text-xs text-gray-500">
+                    {syncStatus.pendingChanges} {syncStatus.pendingChanges === 1 ? 'change' : 'changes'} waiting
+                  </span>
+                )}
+              </p>
+            )}
+            <button
+              type="button"
+              onClick={handleSyncNow}
+              disabled={!preferences.syncEnabled || isSyncing}
+              className="rounded-md bg-gray-100 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-200 disabled:opacity-50 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+            >
+              {isSyncing ? 'Syncing...' : 'Sync Now'}
+            </button>
           </div>
         </section>
+
+        {/* Calendar Settings */}
+        <section>
+          <h3 className="mb-4 text-lg font-medium dark:text-white">Calendar</h3>
+          {!hasCalendarSync ? (
+            <UpgradePrompt feature="calendarSync" description="the calendar feed and meeting warnings" />
+          ) : (
+            <div className="space-y-6">
+              <div>
+                <h4 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">Feed</h4>
+                <input
+                  type="text"
+                  readOnly
+                  value={typeof window === 'undefined' ? '' : getCalendarFeedUrl(window.location.origin)}
+                  onFocus={e => e.target.select()}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                />
+                <p className="mt-2 text-xs text-gray-500">
+                  Subscribe to this address in your calendar app to see completed and planned focus blocks. It shows what has been synced, so turn on sync above.
+                </p>
+              </div>
+
+              <div>
+                <h4 className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">Meetings</h4>
+                {calendar && (
+                  <div className="mb-3 flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                    <span className="truncate">
+                      {calendar.source.type === 'file' ? calendar.source.name : calendar.source.url}
+                      <span className="ml-2 text-xs text-gray-500">
+                        {getUpcomingMeetingCount()} in the next 7 days
+                      </span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={handleCalendarRemove}
+                      className="ml-4 text-xs text-red-600 hover:text-red-700"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                )}
+                <div className="space-y-3">
+                  <input
+                    type="file"
+                    accept="text/calendar,.ics"
+                    onChange={handleCalendarFile}
+                    className="block w-full text-sm text-gray-700 file:mr-4 file:rounded-md file:border-0 file:bg-gray-100 file:px-3 file:py-1.5 file:text-sm hover:file:bg-gray-200 dark:text-gray-300 dark:file:bg-zinc-700 dark:file:text-gray-200"
+                  />
+                  <div className="flex space-x-2">
+                    <input
+                      type="url"
+                      value={calendarUrl}
+                      onChange={e => setCalendarUrl(e.target.value)}
+                      placeholder="https://example.com/calendar.ics"
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleCalendarSubscribe}
+                      disabled={!calendarUrl.trim() || isLoadingCalendar}
+                      className="whitespace-nowrap rounded-md bg-gray-100 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-200 disabled:opacity-50 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+                    >
+                      {isLoadingCalendar ? 'Loading...' : 'Subscribe'}
+                    </button>
+                  </div>
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  The timer warns you when the next pomodoro would run into a meeting and offers a shorter one.
+                </p>
+                {calendarMessage && (
+                  <p className="mt-2 text-sm text-gray-500">{calendarMessage}</p>
+                )}
+              </div>
+            </div>
+          )}
+        </section>
       </div>
     </Modal>
   );
@@ -0,0 +1,268 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import BarChart from '../core/BarChart';
+import ProgressRing from '../core/ProgressRing';
+import UpgradePrompt from './UpgradePrompt';
+import { useFeature } from '../../hooks/useFeature';
+import { querySessions, SessionData } from '../../lib/storage';
+import {
+  Granularity,
+  ModeFilter,
+  PhaseFilter,
+  DEFAULT_PERIODS,
+  getPeriodStart,
+  aggregateSessions,
+  matchesMode,
+  summarizeAdjustments,
+  summarizeBuckets,
+  summarizeInterruptions,
+  summarizePhaseNames
+} from '../../lib/analytics';
+
+const GRANULARITIES: { value: Granularity; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' }
+];
+
+const PHASES: { value: PhaseFilter; label: string }[] = [
+  { value: 'all', label: 'All phases' },
+  { value: 'focus', label: 'Focus' },
+  { value: 'break', label: 'Break' },
+  { value: 'longBreak', label: 'Long break' }
+];
+
+const MODES: { value: ModeFilter; label: string }[] = [
+  { value: 'all', label: 'All modes' },
+  { value: 'pomodoro', label: 'Pomodoro' },
+  { value: 'flowtime', label: 'Flowtime' }
+];
+
+export default function StatsDashboard() {
+  const [sessions, setSessions] = useState<SessionData[]>([]);
+  const [granularity, setGranularity] = useState<Granularity>('daily');
+  const [phase, setPhase] = useState<PhaseFilter>('all');
+  const [mode, setMode] = useState<ModeFilter>('all');
+
+  // Without advanced analytics only the daily view of all phases is available
+  const hasAdvancedAnalytics = useFeature('advancedAnalytics');
+  useEffect(() => {
+    if (!hasAdvancedAnalytics) {
+      setGranularity('daily');
+      setPhase('all');
+      setMode('all');
+    }
+  }, [hasAdvancedAnalytics]);
+
+  // Load only the sessions in the visible range whenever the filters change
+  useEffect(() => {
+    let isCurrent = true;
+    querySessions({
+      from: getPeriodStart(granularity, DEFAULT_PERIODS[granularity], new Date()).toISOString(),
+      phase: phase === 'all' ? undefined : phase
+    }).then(result => {
+      if (isCurrent) setSessions(result);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [granularity, phase]);
+
+  const buckets = useMemo(() => aggregateSessions(sessions, {
+    granularity,
+    phase,
+    mode,
+    periods: DEFAULT_PERIODS[granularity],
+    now: new Date()
+  }), [sessions, granularity, phase, mode]);
+
+  const summary = useMemo(() => summarizeBuckets(buckets), [buckets]);
+
+  const modeSessions = useMemo(
+    () => sessions.filter(session => matchesMode(session, mode)),
+    [sessions, mode]
+  );
+
+  const adjustments = useMemo(() => summarizeAdjustments(modeSessions), [modeSessions]);
+
+  const interruptions = useMemo(() => summarizeInterruptions(modeSessions), [modeSessions]);
+
+  // Only broken down by name once a custom sequence has been used
+  const phaseTotals = useMemo(
+    () => sessions.some(session => session.phaseName) ? summarizePhaseNames(sessions) : [],
+    [sessions]
+  );
+
+  // Format duration for display
+  const formatDuration = (seconds: number): string => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+
+    if (hours > 0) {
+      return `${hours}h ${minutes}m`;
+    }
+    return `${minutes}m`;
+  };
+
+  const filterButtonClass = (active: boolean) =>
+    `rounded-md px-3 py-1.5 text-sm transition-colors ${active ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-zinc-700'}`;
+
+  return (
+    <div className="w-full max-w-3xl space-y-8 p-8">
+      <div className="flex items-center justify-between">
+        <Link href="/" className="text-sm text-gray-400 hover:text-gray-200 transition-colors">
+          ← Back to timer
+        </Link>
+      </div>
+
+      {/* Filters */}
+      {hasAdvancedAnalytics ? (
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex space-x-1 rounded-lg bg-zinc-800 p-1">
+            {GRANULARITIES.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setGranularity(option.value)}
+                className={filterButtonClass(granularity === option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex space-x-1 rounded-lg bg-zinc-800 p-1">
+            {PHASES.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setPhase(option.value)}
+                className={filterButtonClass(phase === option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex space-x-1 rounded-lg bg-zinc-800 p-1">
+            {MODES.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setMode(option.value)}
+                className={filterButtonClass(mode === option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <UpgradePrompt feature="advancedAnalytics" description="weekly and monthly trends and per-phase and per-mode filters" />
+      )}
+
+      {/* Summary */}
+      <div className="grid gap-6 sm:grid-cols-4">
+        <div className="flex flex-col items-center">
+          <span className="text-2xl font-semibold text-blue-500">{formatDuration(summary.focusTime)}</span>
+          <span className="text-xs text-gray-500">Focus Time</span>
+        </div>
+        <div className="flex flex-col items-center">
+          <span className="text-2xl font-semibold text-green-500">{formatDuration(summary.breakTime)}</span>
+          <span className="text-xs text-gray-500">Break Time</span>
+        </div>
+        <div className="flex flex-col items-center">
+          <span className="text-2xl font-semibold">{formatDuration(summary.averageSessionLength)}</span>
+          <span className="text-xs text-gray-500">Avg. Session</span>
+        </div>
+        <div className="flex flex-col items-center">
+          <ProgressRing progress={summary.completionRate * 100} size={72}>
+            <span className="text-sm font-semibold">{Math.round(summary.completionRate * 100)}%</span>
+          </ProgressRing>
+          <span className="mt-1 text-xs text-gray-500">Completion Rate</span>
+        </div>
+      </div>
+
+      {summary.overtime > 0 && (
+        <p className="text-center text-sm text-gray-400">
+          <span className="text-amber-500">{formatDuration(summary.overtime)}</span> of overtime across{' '}
+          {summary.overtimeSessions} {summary.overtimeSessions === 1 ? 'session' : 'sessions'}, on top of the time above
+        </p>
+      )}
+
+      {(adjustments.breaks > 0 || adjustments.extendedSessions > 0 || adjustments.endedEarly > 0) && (
+        <div className="flex flex-wrap justify-center gap-x-6 gap-y-1 text-sm text-gray-400">
+          {adjustments.breaks > 0 && (
+            <span>
+              Breaks skipped: {adjustments.skippedBreaks} of {adjustments.breaks}
+              {' '}({Math.round((adjustments.skippedBreaks / adjustments.breaks) * 100)}%)
+            </span>
+          )}
+          {adjustments.skippedFocusSessions > 0 && (
+            <span>Focus sessions skipped: {adjustments.skippedFocusSessions} of {adjustments.focusSessions}</span>
+          )}
+          {adjustments.extendedSessions > 0 && (
+            <span>
+              Extended: {adjustments.extendedSessions} {adjustments.extendedSessions === 1 ? 'session' : 'sessions'}
+              {' '}(+{formatDuration(adjustments.extension)})
+            </span>
+          )}
+          {adjustments.endedEarly > 0 && (
+            <span>Ended early: {adjustments.endedEarly}</span>
+          )}
+        </div>
+      )}
+
+      {interruptions.total > 0 && (
+        <div className="flex flex-wrap justify-center gap-x-6 gap-y-1 text-sm text-gray-400">
+          <span>
+            Interruptions: {interruptions.total} in {interruptions.interruptedSessions} of{' '}
+            {interruptions.focusSessions} focus {interruptions.focusSessions === 1 ? 'session' : 'sessions'}
+          </span>
+          <span>
+            Internal: {interruptions.internal} ({Math.round((interruptions.internal / interruptions.total) * 100)}%)
+          </span>
+          <span>
+            External: {interruptions.external} ({Math.round((interruptions.external / interruptions.total) * 100)}%)
+          </span>
+        </div>
+      )}
+
+      {/* Chart */}
+      <div className="rounded-lg bg-zinc-800 p-4">
+        <div className="mb-2 flex space-x-4 text-xs text-gray-400">
+          <span><span className="text-blue-500">■</span> Focus</span>
+          <span><span className="text-green-500">■</span> Break</span>
+        </div>
+        <BarChart
+          bars={buckets.map(bucket => ({
+            label: bucket.label,
+            segments: [
+              { value: bucket.focusTime, className: 'text-blue-500' },
+              { value: bucket.breakTime, className: 'text-green-500' }
+            ]
+          }))}
+          formatValue={formatDuration}
+        />
+      </div>
+
+      {/* Custom phases */}
+      {phaseTotals.length > 0 && (
+        <div className="rounded-lg bg-zinc-800 p-4">
+          <h3 className="mb-2 text-sm font-medium text-gray-300">By Phase</h3>
+          <ul className="space-y-1 text-sm">
+            {phaseTotals.map(total => (
+              <li key={total.name} className="flex justify-between text-gray-400">
+                <span>{total.name}</span>
+                <span>{formatDuration(total.time)} · {total.sessions} {total.sessions === 1 ? 'session' : 'sessions'}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {summary.sessions === 0 && (
+        <p className="text-center text-sm text-gray-500">
+          No sessions in this range yet.
+        </p>
+      )}
+    </div>
+  );
+}
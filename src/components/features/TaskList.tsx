@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Task } from '../../types/timer';
+import Button from '../core/Button';
+import {
+  getTasks,
+  createTask,
+  updateTask,
+  deleteTask,
+  reorderTasks,
+  getActiveTaskId,
+  setActiveTaskId,
+  getTaskPomodoroCounts
+} from '../../lib/storage';
+
+interface TaskListProps {
+  // Changes whenever a session is saved so pomodoro counts are reloaded
+  sessionVersion: number;
+}
+
+export default function TaskList({ sessionVersion }: TaskListProps) {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [activeTaskId, setActiveTask] = useState<string | null>(null);
+  const [pomodoroCounts, setPomodoroCounts] = useState<Record<string, number>>({});
+
+  // New task form state
+  const [title, setTitle] = useState('');
+  const [notes, setNotes] = useState('');
+  const [estimate, setEstimate] = useState(1);
+
+  // Load tasks on mount
+  useEffect(() => {
+    setTasks(getTasks());
+    setActiveTask(getActiveTaskId());
+  }, []);
+
+  // Reload actual pomodoros whenever a session is saved
+  useEffect(() => {
+    setPomodoroCounts(getTaskPomodoroCounts());
+  }, [sessionVersion]);
+
+  const handleSelect = (id: string | null) => {
+    setActiveTaskId(id);
+    setActiveTask(id);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+
+    const task = createTask({ title, notes, estimatedPomodoros: estimate });
+    setTasks(getTasks());
+    if (!activeTaskId) {
+      handleSelect(task.id);
+    }
+    setTitle('');
+    setNotes('');
+    setEstimate(1);
+  };
+
+  const handleToggleCompleted = (task: Task) => {
+    updateTask(task.id, { completed: !task.completed });
+    if (!task.completed && activeTaskId === task.id) {
+      handleSelect(null);
+    }
+    setTasks(getTasks());
+  };
+
+  const handleEstimateChange = (task: Task, value: number) => {
+    updateTask(task.id, { estimatedPomodoros: value });
+    setTasks(getTasks());
+  };
+
+  const handleDelete = (id: string) => {
+    deleteTask(id);
+    setTasks(getTasks());
+    setActiveTask(getActiveTaskId());
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= tasks.length) return;
+    const ids = tasks.map(task => task.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderTasks(ids);
+    setTasks(getTasks());
+  };
+
+  const openTasks = tasks.filter(task => !task.completed);
+
+  return (
+    <div className="w-full max-w-md space-y-4">
+      {/* Active task selector */}
+      <div>
+        <label className="block text-sm font-medium text-gray-400">
+          Working on
+        </label>
+        <select
+          value={activeTaskId ?? ''}
+          onChange={e => handleSelect(e.target.value || null)}
+          className="mt-1 block w-full rounded-md border-zinc-600 bg-zinc-700 text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+        >
+          <option value="">No task</option>
+          {openTasks.map(task => (
+            <option key={task.id} value={task.id}>{task.title}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Task list */}
+      <ul className="space-y-2">
+        {tasks.map((task, index) => (
+          <li
+            key={task.id}
+            className={`flex items-start space-x-3 rounded-md bg-zinc-800 p-3 ${task.id === activeTaskId ? 'ring-2 ring-blue-500' : ''}`}
+          >
+            <input
+              type="checkbox"
+              checked={task.completed}
+              onChange={() => handleToggleCompleted(task)}
+              className="mt-1 h-4 w-4 rounded border-zinc-600 text-blue-600 focus:ring-blue-500"
+            />
+            <div className="min-w-0 flex-1">
+              <div className={`text-sm font-medium ${task.completed ? 'text-gray-500 line-through' : 'text-white'}`}>
+                {task.title}
+              </div>
+              {task.notes && (
+                <div className="mt-1 text-xs text-gray-400">{task.notes}</div>
+              )}
+            </div>
+            <div className="flex items-center space-x-1 text-xs text-gray-400" title="Actual / estimated pomodoros">
+              <span className={(pomodoroCounts[task.id] ?? 0) > task.estimatedPomodoros ? 'text-red-400' : ''}>
+                {pomodoroCounts[task.id] ?? 0}
+              </span>
+              <span>/</span>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={task.estimatedPomodoros}
+                onChange={e => handleEstimateChange(task, parseInt(e.target.value, 10) || 1)}
+                className="w-12 rounded border-zinc-600 bg-zinc-700 px-1 py-0.5 text-xs text-white"
+              />
+            </div>
+            <div className="flex flex-col text-xs text-gray-500">
+              <button onClick={() => handleMove(index, -1)} className="hover:text-gray-300" title="Move up">▲</button>
+              <button onClick={() => handleMove(index, 1)} className="hover:text-gray-300" title="Move down">▼</button>
+            </div>
+            <button
+              onClick={() => handleDelete(task.id)}
+              className="text-xs text-gray-500 hover:text-red-400"
+              title="Delete task"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {/* New task form */}
+      <form onSubmit={handleAdd} className="space-y-2">
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={title}
+            onChange={e => setTitle(e.target.value)}
+            placeholder="Add a task"
+            className="block w-full rounded-md border-zinc-600 bg-zinc-700 text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          />
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={estimate}
+            onChange={e => setEstimate(parseInt(e.target.value, 10) || 1)}
+            title="Estimated pomodoros"
+            className="w-16 rounded-md border-zinc-600 bg-zinc-700 text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          />
+          <Button type="submit" size="sm">Add</Button>
+        </div>
+        {title && (
+          <textarea
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            placeholder="Notes (optional)"
+            rows={2}
+            className="block w-full rounded-md border-zinc-600 bg-zinc-700 text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          />
+        )}
+      </form>
+    </div>
+  );
+}
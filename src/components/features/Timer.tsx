@@ -1,17 +1,133 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { TimerState, TimerConfig } from '../../types/timer';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import { TimerState, TimerConfig, PhaseColor, PhaseDefinition, PhaseSound, TimerPreset, InterruptionType } from '../../types/timer';
 import Button from '../core/Button';
 import { initializeSounds, playSound, cleanupAudio } from '../../lib/sounds';
 import {
   getPreferences,
   savePreferences,
   getTimerConfig,
+  saveTimerConfig,
+  getPresets,
+  getPresetConfig,
+  getActivePreset,
   saveSession,
-  getStatistics
+  getStatistics,
+  getActiveTimer,
+  saveActiveTimer,
+  getActiveTaskId,
+  getInterruptionStats,
+  getGoalProgress,
+  getQuarantine,
+  clearQuarantine,
+  onStorageChange,
+  QuarantinedRecord
 } from '../../lib/storage';
+import {
+  createTimerState,
+  getNextPhase,
+  getNextPhaseDefinition,
+  getCurrentPhaseDefinition,
+  getSequence,
+  getTimerMode,
+  getEarnedBreak,
+  alignTimerState,
+  getPlannedDuration,
+  getPlannedFocusBlocks,
+  keepPhaseConfig,
+  shortenPhase,
+  extendPhase,
+  skipPhase as skipEnginePhase,
+  startTimer as startEngineTimer,
+  pauseTimer as pauseEngineTimer,
+  resumeTimer as resumeEngineTimer,
+  resetTimer as resetEngineTimer,
+  completePhase,
+  assignTask,
+  getAutoStartOptions,
+  startPendingPhase,
+  cancelAutoStart,
+  addInterruption,
+  getPhaseRecord,
+  PhaseRecord,
+  catchUpTimer,
+  isPhaseExpired,
+  allowsOvertime,
+  enterOvertime,
+  isOvertimeOver,
+  tickTimer
+} from '../../lib/timerEngine';
+import {
+  TimerCommand,
+  TimerCommandData,
+  initializeTabSync,
+  cleanupTabSync,
+  confirmLeadership,
+  broadcastTimerState,
+  sendTimerCommand
+} from '../../lib/tabSync';
+import { showPhaseNotification, onNotificationAction } from '../../lib/notifications';
+import { downloadFile } from '../../lib/exporters';
+import { onSyncApplied } from '../../lib/sync';
+import { diffSettings } from '../../lib/merge';
+import { MeetingConflict, findMeetingConflict, publishPlannedBlocks } from '../../lib/calendar';
+import { useFeature } from '../../hooks/useFeature';
 import SettingsPanel from './SettingsPanel';
+import TaskList from './TaskList';
+
+// How often the display is refreshed from the clock (ms)
+const TICK_INTERVAL = 250;
+
+// How often the next pomodoro is checked against the meeting calendar (ms)
+const MEETING_CHECK_INTERVAL = 30 * 1000;
+
+const PHASE_TEXT_COLORS: Record<PhaseColor, string> = {
+  blue: 'text-blue-500',
+  green: 'text-green-500',
+  purple: 'text-purple-500',
+  orange: 'text-orange-500',
+  red: 'text-red-500',
+  teal: 'text-teal-500',
+  pink: 'text-pink-500',
+  gray: 'text-gray-500'
+};
+
+// Chime pitch for each phase sound
+const PHASE_SOUND_PITCHES: Record<Exclude<PhaseSound, 'none'>, number> = {
+  high: 1.2,
+  medium: 0.8,
+  low: 0.6
+};
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Index of the largest bucket
+const getPeakIndex = (buckets: number[]) => buckets.indexOf(Math.max(...buckets));
+
+// Save a started phase to the session history
+const savePhaseRecord = (record: PhaseRecord) => {
+  saveSession({
+    startTime: new Date(record.startTime).toISOString(),
+    endTime: new Date(record.endTime).toISOString(),
+    phase: record.phase,
+    outcome: record.outcome,
+    completed: record.outcome === 'completed',
+    duration: record.duration,
+    plannedDuration: record.plannedDuration,
+    pausedTime: record.pausedTime,
+    pauseCount: record.pauseCount,
+    taskId: record.taskId,
+    interruptions: record.interruptions,
+    presetId: record.presetId,
+    ...(record.phaseName ? { phaseName: record.phaseName } : {}),
+    ...(record.mode === 'flowtime' ? { mode: record.mode } : {}),
+    ...(record.overtime > 0 ? { overtime: record.overtime } : {}),
+    ...(record.extension > 0 ? { extension: record.extension } : {}),
+    ...(record.endedEarly ? { endedEarly: true } : {})
+  });
+};
 
 export default function Timer() {
   // Settings panel state
@@ -28,35 +144,146 @@ export default function Timer() {
   const [state, setState] = useState<TimerState>(() => {
     const savedConfig = getTimerConfig();
     const currentStats = getStatistics();
-    return {
-      isRunning: false,
-      isPaused: false,
-      currentPhase: 'focus',
-      timeRemaining: Math.round(savedConfig.focusDuration * 60),
-      completedSessions: currentStats.completedSessions || 0
-    };
+    return createTimerState(savedConfig, currentStats.completedSessions || 0);
   });
 
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [isMuted, setIsMuted] = useState(() => !getPreferences().sound);
   const [soundsInitialized, setSoundsInitialized] = useState(false);
-  const [sessionStartTime, setSessionStartTime] = useState<string | null>(null);
+  const [isLeader, setIsLeader] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [interruptionNote, setInterruptionNote] = useState('');
+  const hasCalendarSync = useFeature('calendarSync');
+  const [meetingConflict, setMeetingConflict] = useState<MeetingConflict | null>(null);
+
+  const [presets, setPresets] = useState<TimerPreset[]>(() => getPresets());
+  // Preset chosen while a phase is running, waiting for the user to say when it applies
+  const [pendingPreset, setPendingPreset] = useState<TimerPreset | null>(null);
+
+  const [interruptionStats, setInterruptionStats] = useState(() => getInterruptionStats());
+
+  const [goalProgress, setGoalProgress] = useState(() => getGoalProgress());
+  const [isCelebrating, setIsCelebrating] = useState(false);
+  const goalsMetRef = useRef<{ daily: boolean; weekly: boolean } | null>(null);
+
+  // Stored records that failed validation and were set aside
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+
+  // Recount interruptions and goal progress whenever a session is saved
+  useEffect(() => {
+    setInterruptionStats(getInterruptionStats());
+    setGoalProgress(getGoalProgress());
+    setQuarantined(getQuarantine());
+  }, [stats]);
+
+  // Save the quarantined records so nothing is lost when they are dismissed
+  const downloadQuarantine = () => {
+    downloadFile('pomodoro-invalid-records.json', JSON.stringify(quarantined, null, 2), 'application/json');
+  };
+
+  const dismissQuarantine = () => {
+    clearQuarantine();
+    setQuarantined([]);
+  };
+
+  // Celebrate when a goal becomes met
+  useEffect(() => {
+    const met = {
+      daily: goalProgress.daily?.met ?? false,
+      weekly: goalProgress.weekly?.met ?? false
+    };
+    // Goals already met when the page loads are not celebrated again
+    const previous = goalsMetRef.current ?? met;
+    const newlyMet = (met.daily && !previous.daily) || (met.weekly && !previous.weekly);
+    goalsMetRef.current = met;
+    if (!newlyMet) return;
+
+    setIsCelebrating(true);
+    const timeout = setTimeout(() => setIsCelebrating(false), 4000);
+    return () => clearTimeout(timeout);
+  }, [goalProgress]);
+
+  // Latest state and command handler for the tab sync callbacks
+  const stateRef = useRef(state);
+  const applyCommandRef = useRef<(command: TimerCommand, data?: TimerCommandData) => void>(() => {});
+
+  // Restore the persisted timer, finishing the phases that ended while no tab was running it
+  const restoreTimer = useCallback(() => {
+    const savedConfig = getTimerConfig();
+    const savedTimer = getActiveTimer();
+
+    if (savedTimer?.isRunning || savedTimer?.autoStartAt) {
+      const { state: restoredState, elapsed } = catchUpTimer(
+        savedTimer,
+        savedConfig,
+        Date.now(),
+        getPreferences()
+      );
+      // Persist before recording so a second mount cannot record them again
+      saveActiveTimer(restoredState);
+      elapsed.forEach(savePhaseRecord);
+      setState(restoredState);
+    } else if (savedTimer) {
+      // Keep the phase and cycle position of an idle timer
+      setState(createTimerState(
+        savedConfig,
+        savedTimer.completedSessions,
+        savedTimer.currentPhase,
+        savedTimer.phaseIndex
+      ));
+    } else {
+      setState(createTimerState(savedConfig, getStatistics().completedSessions));
+    }
+
+    setStats(getStatistics());
+  }, []);
 
-  // Initialize state from localStorage on mount and when settings change
+  // Initialize state from localStorage on mount and join the other tabs
   useEffect(() => {
     const savedConfig = getTimerConfig();
     const preferences = getPreferences();
-    const currentStats = getStatistics();
+    const savedTimer = getActiveTimer();
     
     setConfig(savedConfig);
     setIsMuted(!preferences.sound);
-    setState(prev => ({
-      ...prev,
-      timeRemaining: Math.round(savedConfig.focusDuration * 60),
-      completedSessions: currentStats.completedSessions
-    }));
-    setStats(currentStats);
-  }, []);
+    // Show the persisted timer until the leader tab answers
+    if (savedTimer) {
+      setState(tickTimer(savedTimer, Date.now()));
+    }
+    setStats(getStatistics());
+
+    initializeTabSync({
+      onLeadershipChange: leader => {
+        setIsLeader(leader);
+        if (leader) restoreTimer();
+      },
+      onState: leaderState => {
+        setState(leaderState);
+        setStats(getStatistics());
+      },
+      onCommand: (command, data) => applyCommandRef.current(command, data),
+      onStateRequest: () => broadcastTimerState(stateRef.current)
+    });
+
+    return () => {
+      cleanupTabSync();
+    };
+  }, [restoreTimer]);
+
+  // Persist and broadcast the timer whenever it changes, from the leader tab only.
+  // Focus that has just started is first tagged with the active task.
+  useEffect(() => {
+    stateRef.current = state;
+    if (isLeader) {
+      const withTask = assignTask(state, getActiveTaskId());
+      if (withTask !== state) {
+        setState(withTask);
+        return;
+      }
+      saveActiveTimer(state);
+      broadcastTimerState(state);
+    }
+  }, [state, isLeader]);
 
   // Initialize sounds on first interaction
   const initializeSoundSystem = useCallback(async () => {
@@ -80,173 +307,347 @@ export default function Timer() {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  // Get duration for current phase
-  const getCurrentPhaseDuration = (phase = state.currentPhase) => {
-    switch (phase) {
-      case 'focus':
-        return config.focusDuration;
-      case 'break':
-        return config.breakDuration;
-      case 'longBreak':
-        return config.longBreakDuration;
-      default:
-        return config.focusDuration;
-    }
-  };
-
-  // Calculate progress percentage
+  // Calculate progress percentage. Count-up focus fills the ring towards its
+  // soft target, or once an hour without one.
   const getProgress = () => {
-    const totalSeconds = Math.round(getCurrentPhaseDuration() * 60);
+    if (state.countUp) {
+      const target = getPlannedDuration(state, config);
+      const elapsed = state.timeElapsed ?? 0;
+      return target > 0 ? Math.min(100, (elapsed / target) * 100) : (elapsed % 3600) / 36;
+    }
+    const totalSeconds = getPlannedDuration(state, config);
     const progress = ((totalSeconds - state.timeRemaining) / totalSeconds) * 100;
     return Math.min(Math.max(progress, 0), 100);
   };
 
   // Play phase transition sound
-  const playPhaseSound = (nextPhase: 'focus' | 'break' | 'longBreak') => {
-    if (isMuted || !soundsInitialized) return;
-
-    switch (nextPhase) {
-      case 'focus':
-        playSound('timerComplete', { pitch: 1.2, volume: 0.6 });
-        break;
-      case 'break':
-        playSound('timerComplete', { pitch: 0.8, volume: 0.6 });
-        break;
-      case 'longBreak':
-        playSound('timerComplete', { pitch: 0.6, volume: 0.6 });
-        break;
-    }
-  };
+  const playPhaseSound = useCallback((nextPhase: PhaseDefinition) => {
+    if (isMuted || !soundsInitialized || nextPhase.sound === 'none') return;
+    playSound('timerComplete', { pitch: PHASE_SOUND_PITCHES[nextPhase.sound], volume: 0.6 });
+  }, [isMuted, soundsInitialized]);
 
   // Save completed session
-  const saveCompletedSession = () => {
-    if (!sessionStartTime) return;
-
-    const session = {
-      startTime: sessionStartTime,
-      endTime: new Date().toISOString(),
-      phase: state.currentPhase,
-      completed: true,
-      duration: Math.round(getCurrentPhaseDuration() * 60)
-    };
+  const saveCompletedSession = useCallback(() => {
+    const record = getPhaseRecord(state, config, Date.now(), 'completed');
+    if (!record) return;
 
-    saveSession(session);
-    const updatedStats = getStatistics();
-    setStats(updatedStats);
-    setState(prev => ({
-      ...prev,
-      completedSessions: updatedStats.completedSessions
-    }));
+    savePhaseRecord(record);
+    setStats(getStatistics());
+  }, [state, config]);
+
+  // Record the current phase if it was started but ended early
+  const saveUnfinishedSession = (outcome: 'abandoned' | 'skipped') => {
+    const record = getPhaseRecord(state, config, Date.now(), outcome);
+    if (!record) return;
+
+    savePhaseRecord(record);
+    setStats(getStatistics());
   };
 
   // Handle phase completion
   const handlePhaseComplete = useCallback(() => {
+    // Only the leader tab records sessions and plays the chime
+    if (!confirmLeadership()) return;
+
     setIsTransitioning(true);
     
     // Save completed session
     saveCompletedSession();
 
-    const nextPhase = state.currentPhase === 'focus'
-      ? (state.completedSessions + 1) % config.sessionsUntilLongBreak === 0
-        ? 'longBreak'
-        : 'break'
-      : 'focus';
+    const nextPhase = getNextPhase(state, config);
+    const nextState = completePhase(
+      state,
+      config,
+      Date.now(),
+      getAutoStartOptions(state, nextPhase, getPreferences())
+    );
+    // Persist right away so a reload during the animation does not replay the phase
+    saveActiveTimer(nextState);
 
-    const nextSessionCount = state.currentPhase === 'focus'
-      ? state.completedSessions + 1
-      : state.completedSessions;
-
-    playPhaseSound(nextPhase);
+    const nextDefinition = getCurrentPhaseDefinition(nextState, config);
+    // The chime already played when overtime began
+    if (!state.inOvertime) {
+      playPhaseSound(nextDefinition);
+    }
+    if (getPreferences().notifications) {
+      showPhaseNotification({
+        nextPhase,
+        phaseName: getSequence(config) ? nextDefinition.name : undefined,
+        duration: nextState.countUp ? null : getPlannedDuration(nextState, config),
+        completedSessions: nextState.completedSessions,
+        autoStarted: nextState.isRunning || nextState.autoStartAt !== null
+      });
+    }
 
     // Short delay for transition animation
     setTimeout(() => {
-      setState(prev => ({
-        ...prev,
-        isRunning: nextPhase !== 'focus', // Auto-start breaks
-        currentPhase: nextPhase,
-        timeRemaining: Math.round(getCurrentPhaseDuration(nextPhase) * 60),
-        completedSessions: nextSessionCount
-      }));
+      setState(nextState);
       setIsTransitioning(false);
-      
-      // Start new session timer if auto-starting
-      if (nextPhase !== 'focus') {
-        setSessionStartTime(new Date().toISOString());
-      }
     }, 500);
   }, [
-    state.currentPhase, 
-    state.completedSessions, 
-    config.sessionsUntilLongBreak, 
-    config.focusDuration, 
-    config.breakDuration, 
-    config.longBreakDuration, 
-    playPhaseSound, 
-    saveCompletedSession, 
-    setIsTransitioning, 
-    setState, 
-    sessionStartTime,
-    getCurrentPhaseDuration
+    state,
+    config,
+    playPhaseSound,
+    saveCompletedSession
   ]);
 
+  // Skip to the next phase, recording the current one as skipped
+  const skipPhase = () => {
+    saveUnfinishedSession('skipped');
+    const nextPhase = getNextPhase(state, config, true);
+    setState(prev => skipEnginePhase(
+      prev,
+      config,
+      Date.now(),
+      getAutoStartOptions(prev, nextPhase, getPreferences())
+    ));
+  };
+
+  // Apply a control command to the timer owned by this tab
+  const applyCommand = (command: TimerCommand, data?: TimerCommandData) => {
+    switch (command) {
+      case 'start':
+        setState(prev => startEngineTimer(data?.duration ? shortenPhase(prev, data.duration) : prev, Date.now()));
+        break;
+      case 'pause':
+        setState(prev => pauseEngineTimer(prev, Date.now()));
+        break;
+      case 'resume':
+        setState(prev => resumeEngineTimer(prev, Date.now()));
+        break;
+      case 'reset':
+        saveUnfinishedSession('abandoned');
+        setIsTransitioning(true);
+        setTimeout(() => {
+          setState(prev => resetEngineTimer(prev, config));
+          setIsTransitioning(false);
+        }, 300);
+        break;
+      case 'skip':
+        skipPhase();
+        break;
+      case 'stop':
+        // End the running phase now and count it as completed; this is how
+        // count-up focus and overtime end
+        if (state.isRunning) {
+          handlePhaseComplete();
+        }
+        break;
+      case 'extend':
+        if (data?.duration) {
+          const { duration } = data;
+          setState(prev => extendPhase(prev, config, duration));
+        }
+        break;
+      case 'cancelAutoStart':
+        setState(prev => cancelAutoStart(prev));
+        break;
+      case 'interrupt':
+        if (data?.interruption) {
+          const { interruption } = data;
+          setState(prev => addInterruption(prev, interruption));
+        }
+        break;
+      case 'applyPreset': {
+        const preset = getPresets().find(candidate => candidate.id === data?.presetId);
+        if (!preset) break;
+        const presetConfig = getPresetConfig(preset, config);
+        if (data?.restart && state.isRunning) {
+          // Start the phase over with the preset's durations
+          saveUnfinishedSession('abandoned');
+          setState(prev => startEngineTimer(
+            createTimerState(presetConfig, prev.completedSessions, prev.currentPhase),
+            Date.now()
+          ));
+        } else if (state.isRunning) {
+          setState(prev => keepPhaseConfig(prev, config));
+        } else {
+          setState(prev => alignTimerState(prev, presetConfig));
+        }
+        saveTimerConfig(presetConfig);
+        setConfig(presetConfig);
+        break;
+      }
+    }
+  };
+
+  useEffect(() => {
+    applyCommandRef.current = applyCommand;
+  });
+
+  // Handle action buttons clicked on a phase notification
+  useEffect(() => {
+    return onNotificationAction(action => {
+      if (isLeader) {
+        applyCommandRef.current(action);
+      } else {
+        sendTimerCommand(action);
+      }
+    });
+  }, [isLeader]);
+
+  // Run a command here if this tab is the leader, otherwise send it to the leader
+  const runCommand = (command: TimerCommand, data?: TimerCommandData) => {
+    if (isLeader) {
+      applyCommand(command, data);
+    } else {
+      sendTimerCommand(command, data);
+    }
+  };
+
   // Timer controls
   const startTimer = async () => {
     await initializeSoundSystem();
-    setSessionStartTime(new Date().toISOString());
-    setState(prev => ({ ...prev, isRunning: true, isPaused: false }));
+    runCommand('start');
+  };
+
+  // Start a focus session that ends before the next meeting
+  const startShortenedTimer = async () => {
+    if (!meetingConflict) return;
+    await initializeSoundSystem();
+    runCommand('start', { duration: Math.floor(meetingConflict.availableSeconds / 60) * 60 });
   };
 
   const pauseTimer = () => {
-    setState(prev => ({ ...prev, isPaused: true }));
+    runCommand(state.isPaused ? 'resume' : 'pause');
+  };
+
+  // Switch presets. An idle timer changes at once; a running phase either keeps
+  // its durations until the next phase or restarts with the new ones.
+  const applyPreset = (preset: TimerPreset, restart = false) => {
+    setPendingPreset(null);
+    runCommand('applyPreset', { presetId: preset.id, restart });
+    if (!isLeader) setConfig(getPresetConfig(preset, config));
+  };
+
+  const handlePresetSelect = (id: string) => {
+    const preset = presets.find(candidate => candidate.id === id);
+    if (!preset) return;
+    if (state.isRunning) {
+      setPendingPreset(preset);
+    } else {
+      applyPreset(preset);
+    }
   };
 
   const resetTimer = () => {
-    setIsTransitioning(true);
-    setSessionStartTime(null);
-    setTimeout(() => {
-      setState(prev => ({
-        ...prev,
-        isRunning: false,
-        isPaused: false,
-        timeRemaining: Math.round(getCurrentPhaseDuration() * 60)
-      }));
-      setIsTransitioning(false);
-    }, 300);
+    runCommand('reset');
+  };
+
+  // End the phase now and count it, which also ends count-up focus and overtime
+  const stopPhase = () => {
+    runCommand('stop');
+  };
+
+  const skipCurrentPhase = () => {
+    runCommand('skip');
   };
 
-  // Timer tick effect
+  // Add minutes to the current phase
+  const extendCurrentPhase = (minutes: number) => {
+    runCommand('extend', { duration: minutes * 60 });
+  };
+
+  // Log an interruption against the current focus session
+  const logInterruption = (type: InterruptionType) => {
+    const note = interruptionNote.trim();
+    runCommand('interrupt', {
+      interruption: {
+        timestamp: new Date().toISOString(),
+        type,
+        ...(note ? { note } : {})
+      }
+    });
+    setInterruptionNote('');
+  };
+
+  // Timer tick effect: derive the remaining time from the phase end time
+  useEffect(() => {
+    if (!state.isRunning || state.isPaused || isTransitioning) return;
+
+    const update = () => setState(prev => tickTimer(prev, Date.now()));
+    const interval = setInterval(update, TICK_INTERVAL);
+
+    // Catch up immediately when a throttled or sleeping tab becomes visible
+    document.addEventListener('visibilitychange', update);
+    update();
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', update);
+    };
+  }, [state.isRunning, state.isPaused, isTransitioning]);
+
+  // Complete the phase once its end time has passed, or let focus run into
+  // overtime until the user confirms the break or the overtime limit forces it
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-
-    if (state.isRunning && !state.isPaused && !isTransitioning) {
-      interval = setInterval(() => {
-        setState(prev => {
-          if (prev.timeRemaining <= 0) {
-            clearInterval(interval);
-            handlePhaseComplete();
-            return prev;
-          }
-          return { ...prev, timeRemaining: prev.timeRemaining - 1 };
-        });
-      }, 1000);
+    if (!isLeader || isTransitioning) return;
+    const currentTime = Date.now();
+    const preferences = getPreferences();
+    if (isOvertimeOver(state, currentTime, preferences)) {
+      handlePhaseComplete();
+    } else if (state.timeRemaining <= 0 && isPhaseExpired(state, currentTime)) {
+      if (allowsOvertime(state, preferences)) {
+        playPhaseSound(getNextPhaseDefinition(state, config));
+        setState(prev => enterOvertime(prev, currentTime));
+      } else {
+        handlePhaseComplete();
+      }
     }
+  }, [state, config, isLeader, isTransitioning, handlePhaseComplete, playPhaseSound]);
+
+  // Auto-start countdown: refresh the prompt and start the phase when it runs out
+  useEffect(() => {
+    if (state.autoStartAt === null || isTransitioning) return;
+
+    const update = () => {
+      setNow(Date.now());
+      if (isLeader) {
+        setState(prev => startPendingPhase(prev, Date.now()));
+      }
+    };
+    const interval = setInterval(update, TICK_INTERVAL);
+    update();
 
     return () => clearInterval(interval);
-  }, [state.isRunning, state.isPaused, isTransitioning, handlePhaseComplete]);
-
-  // Get phase-specific styles
-  const getPhaseStyles = () => {
-    switch (state.currentPhase) {
-      case 'focus':
-        return 'text-blue-500';
-      case 'break':
-        return 'text-green-500';
-      case 'longBreak':
-        return 'text-purple-500';
-      default:
-        return 'text-blue-500';
+  }, [state.autoStartAt, isLeader, isTransitioning]);
+
+  // Warn when the next pomodoro would run into a meeting. Count-up focus is
+  // checked against its soft target.
+  const plannedSeconds = state.countUp ? getPlannedDuration(state, config) : state.timeRemaining;
+  useEffect(() => {
+    if (!hasCalendarSync || state.isRunning || state.currentPhase !== 'focus') {
+      setMeetingConflict(null);
+      return;
     }
-  };
+
+    const check = () => setMeetingConflict(findMeetingConflict(new Date(), plannedSeconds));
+    const interval = setInterval(check, MEETING_CHECK_INTERVAL);
+    const unsubscribe = onStorageChange(key => {
+      if (key === 'pomodoro_calendar') check();
+    });
+    check();
+
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [hasCalendarSync, state.isRunning, state.currentPhase, plannedSeconds]);
+
+  // Share the planned focus blocks with the calendar feed, from the leader tab only
+  useEffect(() => {
+    if (!isLeader || !hasCalendarSync || !getPreferences().syncEnabled) return;
+    publishPlannedBlocks(getPlannedFocusBlocks(stateRef.current, config));
+  }, [isLeader, hasCalendarSync, config, state.isRunning, state.isPaused, state.currentPhase, state.phaseEndTime]);
+
+  const phaseDefinition = getCurrentPhaseDefinition(state, config);
+  const sequence = getSequence(config);
+  const isFlowtime = getTimerMode(config) === 'flowtime';
+  const flowtimeTarget = state.countUp ? getPlannedDuration(state, config) : 0;
+  const overtimeLimit = state.inOvertime ? getPreferences().maxOvertime * 60 : 0;
+
+  // Get phase-specific styles; overtime has its own color
+  const getPhaseStyles = () => state.inOvertime ? 'text-amber-500' : PHASE_TEXT_COLORS[phaseDefinition.color];
 
   // Handle mute toggle
   const handleMuteToggle = async () => {
@@ -262,6 +663,11 @@ export default function Timer() {
     });
   };
 
+  // Format a meeting time as HH:MM
+  const formatClockTime = (date: Date): string => {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
   // Format duration for display
   const formatDuration = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
@@ -282,16 +688,44 @@ export default function Timer() {
     // Update state with new values
     setConfig(newConfig);
     setIsMuted(!preferences.sound);
+    // Goals and the streak rule may have changed
+    setStats(getStatistics());
     
-    // Update timer if not running
+    // Update timer if not running; a running phase keeps its durations
     if (!state.isRunning) {
-      setState(prev => ({
-        ...prev,
-        timeRemaining: Math.round(newConfig.focusDuration * 60)
-      }));
+      setState(prev => alignTimerState(prev, newConfig));
+    } else if (diffSettings(config, newConfig).length > 0) {
+      setState(prev => keepPhaseConfig(prev, config));
     }
+    setPresets(getPresets());
   };
 
+  const handleSettingsChangeRef = useRef(handleSettingsChange);
+
+  useEffect(() => {
+    handleSettingsChangeRef.current = handleSettingsChange;
+  });
+
+  // Pick up settings and sessions synced from another device
+  useEffect(() => {
+    return onSyncApplied(() => handleSettingsChangeRef.current());
+  }, []);
+
+  // Pick up presets saved in the settings, and settings saved in another tab
+  // so the leader runs with changes made in a follower. Changes made here are
+  // applied by whoever made them.
+  useEffect(() => {
+    return onStorageChange((key, fromOtherTab) => {
+      if (fromOtherTab && (key === 'pomodoro_config' || key === 'pomodoro_preferences' || key === 'pomodoro_presets')) {
+        handleSettingsChangeRef.current();
+      } else if (key === 'pomodoro_presets') {
+        setPresets(getPresets());
+      }
+    });
+  }, []);
+
+  const activePreset = getActivePreset(config, presets);
+
   return (
     <div className="relative flex flex-col items-center space-y-8 p-8">
       {/* Settings button */}
@@ -321,6 +755,23 @@ export default function Timer() {
         </svg>
       </button>
 
+      {/* Invalid stored data */}
+      {quarantined.length > 0 && (
+        <div className="flex w-full max-w-md items-center justify-between space-x-4 rounded-md bg-yellow-900/40 px-4 py-2 text-sm text-yellow-200">
+          <span>
+            {quarantined.length} stored {quarantined.length === 1 ? 'record was' : 'records were'} invalid and {quarantined.length === 1 ? 'has' : 'have'} been set aside.
+          </span>
+          <div className="flex space-x-3 whitespace-nowrap">
+            <button onClick={downloadQuarantine} className="underline hover:text-yellow-100">
+              Download
+            </button>
+            <button onClick={dismissQuarantine} className="underline hover:text-yellow-100">
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Progress ring */}
       <div className={`relative transition-transform duration-300 ${isTransitioning ? 'scale-95' : 'scale-100'}`}>
         <svg className="w-64 h-64 transform -rotate-90">
@@ -348,16 +799,101 @@ export default function Timer() {
         </svg>
         <div className={`absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 transition-opacity duration-300 ${isTransitioning ? 'opacity-0' : 'opacity-100'}`}>
           <div className={`text-6xl font-bold font-mono timer-display ${getPhaseStyles()}`}>
-            {formatTime(state.timeRemaining)}
+            {state.inOvertime
+              ? `+${formatTime(state.timeOvertime ?? 0)}`
+              : formatTime(state.countUp ? state.timeElapsed ?? 0 : state.timeRemaining)}
           </div>
         </div>
       </div>
+
+      {state.inOvertime && (
+        <div className="text-sm text-gray-400">
+          Overtime — take a break when you are ready
+          {overtimeLimit > 0 && `; it starts by itself in ${formatTime(Math.max(0, overtimeLimit - (state.timeOvertime ?? 0)))}`}
+        </div>
+      )}
+
+      {state.countUp && state.isRunning && (
+        <div className="text-sm text-gray-400">
+          {flowtimeTarget > 0 && (state.timeElapsed ?? 0) >= flowtimeTarget ? 'Target reached · ' : ''}
+          Break earned: {formatTime(getEarnedBreak(config, state.timeElapsed ?? 0))}
+        </div>
+      )}
       
       <div className={`text-xl transition-colors duration-300 ${getPhaseStyles()}`}>
-        {state.currentPhase === 'longBreak' ? 'Long Break' : 
+        {sequence ? phaseDefinition.name : state.currentPhase === 'longBreak' ? 'Long Break' :
          `${state.currentPhase.charAt(0).toUpperCase() + state.currentPhase.slice(1)} Time`}
       </div>
 
+      {state.autoStartAt !== null && (
+        <div className="flex items-center space-x-2 text-sm text-gray-400">
+          <span>
+            {phaseDefinition.name}
+            {' '}starts in {Math.max(0, Math.ceil((state.autoStartAt - now) / 1000))}s —
+          </span>
+          <button
+            onClick={() => runCommand('cancelAutoStart')}
+            className="underline hover:text-gray-200 transition-colors"
+          >
+            cancel
+          </button>
+        </div>
+      )}
+
+      {!isFlowtime && (
+        <div className="flex flex-col items-center space-y-2 text-sm">
+          <div className="flex items-center space-x-2">
+            <label htmlFor="timer-preset" className="text-gray-400">Preset</label>
+            <select
+              id="timer-preset"
+              value={activePreset?.id ?? ''}
+              onChange={e => handlePresetSelect(e.target.value)}
+              className="rounded-md border-zinc-600 bg-zinc-700 text-sm text-white shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              {!activePreset && <option value="">Custom</option>}
+              {presets.map(preset => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.name} ({preset.focusDuration}/{preset.breakDuration})
+                </option>
+              ))}
+            </select>
+          </div>
+          {pendingPreset ? (
+            <div className="flex items-center space-x-2 text-gray-400">
+              <span>Switch to {pendingPreset.name}:</span>
+              <button onClick={() => applyPreset(pendingPreset)} className="underline hover:text-gray-200 transition-colors">
+                at the next phase
+              </button>
+              <button onClick={() => applyPreset(pendingPreset, true)} className="underline hover:text-gray-200 transition-colors">
+                restart now
+              </button>
+              <button onClick={() => setPendingPreset(null)} className="underline hover:text-gray-200 transition-colors">
+                cancel
+              </button>
+            </div>
+          ) : state.isRunning && state.presetId !== undefined && state.presetId !== (config.presetId ?? null) && (
+            <div className="text-xs text-gray-500">
+              {activePreset?.name ?? 'The new durations'} will apply from the next phase
+            </div>
+          )}
+        </div>
+      )}
+
+      {meetingConflict && (
+        <div className="flex max-w-md flex-col items-center space-y-2 rounded-md bg-yellow-900/40 px-4 py-2 text-center text-sm text-yellow-200">
+          <span>
+            {meetingConflict.availableSeconds > 0
+              ? `This pomodoro would run into "${meetingConflict.meeting.summary || 'a meeting'}" at ${formatClockTime(meetingConflict.meeting.start)}.`
+              : `"${meetingConflict.meeting.summary || 'A meeting'}" is on until ${formatClockTime(meetingConflict.meeting.end)}.`}
+          </span>
+          {meetingConflict.availableSeconds >= 60 && !state.countUp && (
+            <Button size="sm" variant="outline" onClick={startShortenedTimer}>
+              Start a {Math.floor(meetingConflict.availableSeconds / 60)}-minute session
+            </Button>
+          )}
+        </div>
+      )}
+
       <div className="flex space-x-4">
         {!state.isRunning ? (
           <Button onClick={startTimer} className="button-hover-effect">Start</Button>
@@ -366,17 +902,89 @@ export default function Timer() {
             {state.isPaused ? 'Resume' : 'Pause'}
           </Button>
         )}
+        {(state.countUp || state.inOvertime) && state.isRunning && (
+          <Button onClick={stopPhase} className="button-hover-effect">Take a Break</Button>
+        )}
         <Button onClick={resetTimer} variant="outline" className="button-hover-effect">Reset</Button>
       </div>
 
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {!state.countUp && !state.inOvertime && (
+          <>
+            <Button size="sm" variant="outline" onClick={() => extendCurrentPhase(1)}>+1 min</Button>
+            <Button size="sm" variant="outline" onClick={() => extendCurrentPhase(5)}>+5 min</Button>
+            {state.isRunning && (
+              <Button size="sm" variant="outline" onClick={stopPhase} title="Finish now and count the session as completed">
+                End Early
+              </Button>
+            )}
+          </>
+        )}
+        <Button size="sm" variant="outline" onClick={skipCurrentPhase} title="Move on without counting this phase">
+          {state.currentPhase === 'focus' ? 'Skip' : 'Skip Break'}
+        </Button>
+      </div>
+
+      {state.isRunning && state.currentPhase === 'focus' && (
+        <div className="flex flex-col items-center space-y-2">
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-400">Interrupted:</span>
+            <Button size="sm" variant="outline" onClick={() => logInterruption('internal')}>
+              Internal
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => logInterruption('external')}>
+              External
+            </Button>
+            <input
+              type="text"
+              value={interruptionNote}
+              onChange={e => setInterruptionNote(e.target.value)}
+              placeholder="Note (optional)"
+              className="w-40 rounded-md border-zinc-600 bg-zinc-700 text-sm text-white shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          {state.interruptions.length > 0 && (
+            <div className="text-xs text-gray-500">
+              {state.interruptions.length} interruption{state.interruptions.length === 1 ? '' : 's'} this session
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="flex flex-col items-center space-y-4">
         <div className="flex flex-col items-center space-y-2">
           <div className="text-sm text-gray-600">
             Sessions completed: {stats.completedSessions}
           </div>
           <div className="text-xs text-gray-500">
-            {state.completedSessions % config.sessionsUntilLongBreak} / {config.sessionsUntilLongBreak} until long break
+            {isFlowtime
+              ? 'Flowtime: breaks are earned from focus time'
+              : sequence
+              ? `Phase ${(state.phaseIndex ?? 0) % sequence.length + 1} of ${sequence.length}`
+              : `${state.completedSessions % config.sessionsUntilLongBreak} / ${config.sessionsUntilLongBreak} until long break`}
           </div>
+          {(goalProgress.daily || goalProgress.weekly) && (
+            <div className={`flex flex-col items-center space-y-1 text-xs ${isCelebrating ? 'animate-bounce' : ''}`}>
+              {goalProgress.daily && (
+                <div className={goalProgress.daily.met ? 'text-green-500' : 'text-gray-500'}>
+                  {goalProgress.daily.met ? '🎉 ' : ''}Today: {goalProgress.daily.current} / {goalProgress.daily.target} pomodoros
+                </div>
+              )}
+              {goalProgress.weekly && (
+                <div className={goalProgress.weekly.met ? 'text-green-500' : 'text-gray-500'}>
+                  {goalProgress.weekly.met ? '🎉 ' : ''}This week: {goalProgress.weekly.current.toFixed(1)} / {goalProgress.weekly.target}h focus
+                </div>
+              )}
+              {goalProgress.daily && (
+                <div className="h-1 w-40 overflow-hidden rounded-full bg-gray-200">
+                  <div
+                    className={`h-full transition-all duration-1000 ease-in-out ${goalProgress.daily.met ? 'bg-green-500' : 'bg-blue-500'}`}
+                    style={{ width: `${Math.min(100, (goalProgress.daily.current / goalProgress.daily.target) * 100)}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="flex space-x-8 text-sm text-gray-600">
@@ -386,10 +994,32 @@ export default function Timer() {
           </div>
           <div className="flex flex-col items-center">
             <span className="font-semibold">{stats.dailyStreak}</span>
-            <span className="text-xs text-gray-500">Day Streak</span>
+            <span className="text-xs text-gray-500" title={`Longest streak: ${stats.longestStreak} days`}>
+              Day Streak
+            </span>
+          </div>
+          <div className="flex flex-col items-center">
+            <span className="font-semibold">{Math.round(stats.completionRate * 100)}%</span>
+            <span className="text-xs text-gray-500">Completed</span>
+          </div>
+          <div className="flex flex-col items-center">
+            <span className="font-semibold">{interruptionStats.total}</span>
+            <span className="text-xs text-gray-500">Interruptions</span>
           </div>
         </div>
 
+        {interruptionStats.total > 0 && (
+          <div className="text-xs text-gray-500">
+            {interruptionStats.internal} internal · {interruptionStats.external} external ·
+            noisiest at {getPeakIndex(interruptionStats.byHour).toString().padStart(2, '0')}:00
+            on {WEEKDAYS[getPeakIndex(interruptionStats.byWeekday)]}
+          </div>
+        )}
+
+        <Link href="/stats" className="text-sm text-gray-600 hover:text-gray-800 transition-colors">
+          View statistics →
+        </Link>
+
         <button
           onClick={handleMuteToggle}
           className={`mt-2 text-sm ${isMuted ? 'text-gray-400' : 'text-gray-600'} hover:text-gray-800 transition-colors`}
@@ -398,6 +1028,9 @@ export default function Timer() {
         </button>
       </div>
 
+      {/* Tasks */}
+      <TaskList sessionVersion={stats.completedSessions} />
+
       {/* Settings Panel */}
       <SettingsPanel
         isOpen={isSettingsOpen}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+import { Feature, TIER_NAMES, getRequiredTier } from '../../lib/entitlements';
+import { getBillingProvider } from '../../lib/billing';
+import { useSubscription } from '../../hooks/useFeature';
+
+interface UpgradePromptProps {
+  feature: Feature;
+  // What the feature unlocks, e.g. "weekly and monthly trends"
+  description: string;
+}
+
+// Shown in place of a locked feature
+export default function UpgradePrompt({ feature, description }: UpgradePromptProps) {
+  const { subscription } = useSubscription();
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tier = getRequiredTier(feature);
+
+  const handleChange = async (change: () => Promise<unknown>) => {
+    setIsUpdating(true);
+    setError(null);
+    try {
+      await change();
+    } catch (changeError) {
+      setError(changeError instanceof Error ? changeError.message : 'The plan could not be changed');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border border-blue-500/40 bg-blue-500/10 p-3 text-sm">
+      <p className="text-gray-500">
+        🔒 Upgrade to {TIER_NAMES[tier]} to unlock {description}.
+      </p>
+      <div className="flex space-x-2">
+        <button
+          type="button"
+          onClick={() => handleChange(() => getBillingProvider().changeTier(tier))}
+          disabled={isUpdating}
+          className="rounded-md bg-blue-600 px-3 py-1.5 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          Upgrade to {TIER_NAMES[tier]}
+        </button>
+        {!subscription.hasUsedTrial && (
+          <button
+            type="button"
+            onClick={() => handleChange(() => getBillingProvider().startTrial(tier))}
+            disabled={isUpdating}
+            className="rounded-md px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-500/10 disabled:opacity-50"
+          >
+            Start Free Trial
+          </button>
+        )}
+      </div>
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Button from '../core/Button';
+import Modal from '../core/Modal';
+import {
+  Profile,
+  getProfiles,
+  getActiveProfile,
+  createProfile,
+  renameProfile,
+  switchProfile,
+  deleteProfile,
+  onProfileChange
+} from '../../lib/storage';
+
+export default function ProfileSwitcher() {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState('');
+  const [isManaging, setIsManaging] = useState(false);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  // Names being edited, by profile id
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [newName, setNewName] = useState('');
+
+  // Load profiles and follow changes made here or in other tabs
+  useEffect(() => {
+    const loadProfiles = () => {
+      const current = getProfiles();
+      setProfiles(current);
+      setActiveProfileId(getActiveProfile().id);
+      setNames(Object.fromEntries(current.map(profile => [profile.id, profile.name])));
+    };
+    loadProfiles();
+    return onProfileChange(loadProfiles);
+  }, []);
+
+  const handleSwitch = async (id: string) => {
+    setIsSwitching(true);
+    await switchProfile(id);
+    setIsSwitching(false);
+  };
+
+  const handleRename = (profile: Profile) => {
+    const name = names[profile.id]?.trim();
+    if (!name) {
+      // Put back the saved name rather than leave a profile unnamed
+      setNames(prev => ({ ...prev, [profile.id]: profile.name }));
+      return;
+    }
+    if (name !== profile.name) {
+      renameProfile(profile.id, name);
+    }
+  };
+
+  const handleDelete = (profile: Profile) => {
+    if (!window.confirm(`Delete "${profile.name}" and all of its sessions, tasks and settings?`)) {
+      return;
+    }
+    deleteProfile(profile.id);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    const profile = createProfile(newName);
+    setNewName('');
+    await handleSwitch(profile.id);
+  };
+
+  return (
+    <div className="flex items-center justify-end space-x-2 pt-4">
+      <label htmlFor="profile" className="text-sm text-gray-400">
+        Profile
+      </label>
+      <select
+        id="profile"
+        value={activeProfileId}
+        onChange={e => handleSwitch(e.target.value)}
+        disabled={isSwitching}
+        className="rounded-md border-zinc-600 bg-zinc-700 text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:opacity-50 sm:text-sm"
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>{profile.name}</option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => setIsManaging(true)}
+        className="text-sm text-gray-400 hover:text-gray-200"
+      >
+        Manage
+      </button>
+
+      <Modal isOpen={isManaging} onClose={() => setIsManaging(false)} title="Profiles">
+        <div className="space-y-4">
+          <p className="text-xs text-gray-500">
+            Each profile keeps its own sessions, tasks, goals and settings in this browser.
+          </p>
+          <ul className="space-y-2">
+            {profiles.map(profile => (
+              <li key={profile.id} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={names[profile.id] ?? ''}
+                  onChange={e => setNames(prev => ({ ...prev, [profile.id]: e.target.value }))}
+                  onBlur={() => handleRename(profile)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') handleRename(profile);
+                  }}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+                />
+                {profile.id === activeProfileId ? (
+                  <span className="w-16 text-center text-xs text-gray-500">Active</span>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => handleSwitch(profile.id)}
+                      disabled={isSwitching}
+                      className="text-xs text-blue-600 hover:underline disabled:opacity-50"
+                    >
+                      Open
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(profile)}
+                      className="text-xs text-red-600 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleAdd} className="flex space-x-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              placeholder="New profile name"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-700 dark:text-white sm:text-sm"
+            />
+            <Button type="submit" size="sm" disabled={!newName.trim()}>Add</Button>
+          </form>
+        </div>
+      </Modal>
+    </div>
+  );
+}
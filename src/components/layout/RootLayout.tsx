@@ -1,7 +1,15 @@
 'use client';
 
-import { ReactNode } from 'react';
+import { ReactNode, useEffect, useState } from 'react';
 import { UserPreferences } from '../../types/timer';
+import { getActiveProfile, loadStorage, onProfileChange, runScheduledBackup } from '../../lib/storage';
+import { startSync } from '../../lib/sync';
+import { refreshSubscription } from '../../lib/billing';
+import { CALENDAR_REFRESH_INTERVAL, refreshCalendar } from '../../lib/calendar';
+import ProfileSwitcher from './ProfileSwitcher';
+
+// How often to check whether a scheduled snapshot is due
+const BACKUP_CHECK_INTERVAL = 15 * 60 * 1000;
 
 interface RootLayoutProps {
   children: ReactNode;
@@ -16,8 +24,65 @@ export default function RootLayout({
     sound: true,
     autoStartBreaks: false,
     autoStartPomodoros: false,
+    autoStartCountdown: 10,
+    maxAutoStartPomodoros: 0,
+    overtime: false,
+    maxOvertime: 10,
+    dayStartHour: 0,
+    streakMinimumPomodoros: 1,
+    autoBackup: false,
+    autoBackupIntervalHours: 24,
+    autoBackupKeep: 5,
+    syncEnabled: false,
   }
 }: RootLayoutProps) {
+  // Pages read storage synchronously, so they wait until it has loaded
+  const [isStorageLoaded, setIsStorageLoaded] = useState(false);
+  const [profileId, setProfileId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadStorage()
+      .catch(error => console.error('Error loading storage:', error))
+      .finally(() => {
+        setProfileId(getActiveProfile().id);
+        setIsStorageLoaded(true);
+      });
+  }, []);
+
+  // Pages are remounted when another profile is opened so they reload its data
+  useEffect(() => {
+    if (!isStorageLoaded) return;
+    return onProfileChange(() => setProfileId(getActiveProfile().id));
+  }, [isStorageLoaded]);
+
+  // Pick up plan changes made with the billing provider elsewhere
+  useEffect(() => {
+    if (!isStorageLoaded) return;
+    refreshSubscription();
+  }, [isStorageLoaded, profileId]);
+
+  // Take scheduled snapshots while the app is open
+  useEffect(() => {
+    if (!isStorageLoaded) return;
+    runScheduledBackup();
+    const interval = setInterval(() => runScheduledBackup(), BACKUP_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isStorageLoaded]);
+
+  // Reload a subscribed meeting calendar while the app is open
+  useEffect(() => {
+    if (!isStorageLoaded) return;
+    refreshCalendar();
+    const interval = setInterval(() => refreshCalendar(), CALENDAR_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isStorageLoaded, profileId]);
+
+  // Sync with the server while the app is open; it does nothing until enabled in settings
+  useEffect(() => {
+    if (!isStorageLoaded) return;
+    return startSync();
+  }, [isStorageLoaded]);
+
   // Determine theme class based on preferences and system settings
   const getThemeClass = () => {
     if (preferences.theme === 'system') {
@@ -35,9 +100,9 @@ export default function RootLayout({
   return (
     <div className={`min-h-screen w-full ${getThemeClass()}`}>
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        {/* Header will be added here */}
-        <main className="py-8">
-          {children}
+        {isStorageLoaded && <ProfileSwitcher />}
+        <main key={profileId} className="py-8">
+          {isStorageLoaded && children}
         </main>
         {/* Footer will be added here */}
       </div>
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { Subscription, SubscriptionTier } from '../types/timer';
+import { getSubscription, onStorageChange } from '../lib/storage';
+import { Feature, getEffectiveTier, hasFeature } from '../lib/entitlements';
+
+// How often to check whether a trial or paid period has run out
+const EXPIRY_CHECK_INTERVAL = 60 * 1000;
+
+interface SubscriptionInfo {
+  subscription: Subscription;
+  tier: SubscriptionTier;  // Tier in effect now
+  now: Date;
+}
+
+// The stored subscription, updated when it changes or expires
+export const useSubscription = (): SubscriptionInfo => {
+  const [subscription, setSubscription] = useState(() => getSubscription());
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    return onStorageChange(key => {
+      if (key === 'pomodoro_subscription') {
+        setSubscription(getSubscription());
+        setNow(new Date());
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), EXPIRY_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  return { subscription, tier: getEffectiveTier(subscription, now), now };
+};
+
+// Whether the current subscription includes a feature
+export const useFeature = (feature: Feature): boolean => {
+  const { subscription, now } = useSubscription();
+  return hasFeature(subscription, feature, now);
+};
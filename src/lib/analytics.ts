@@ -0,0 +1,384 @@
+import type { FocusGoals, TimerMode } from '../types/timer';
+import type { SessionData } from './storage';
+
+// Pure aggregation of session history for statistics and streaks. Nothing
+// here touches storage or the clock directly, so it can be tested with
+// fixed sessions and a fixed "now".
+
+export type Granularity = 'daily' | 'weekly' | 'monthly';
+
+export type PhaseFilter = 'all' | 'focus' | 'break' | 'longBreak';
+
+export type ModeFilter = 'all' | TimerMode;
+
+export interface AggregateOptions {
+  granularity: Granularity;
+  phase: PhaseFilter;
+  mode?: ModeFilter;
+  periods: number;  // Number of buckets ending with the current one
+  now: Date;
+}
+
+export interface SessionBucket {
+  start: Date;  // Local start of the bucket
+  label: string;
+  focusTime: number;  // Seconds
+  breakTime: number;  // Seconds
+  overtime: number;  // Seconds past the planned end, on top of focus and break time
+  overtimeSessions: number;  // Sessions that ran into overtime
+  sessions: number;
+  completedSessions: number;
+}
+
+export interface SessionSummary {
+  focusTime: number;  // Seconds
+  breakTime: number;  // Seconds
+  overtime: number;  // Seconds
+  overtimeSessions: number;  // Sessions that ran into overtime
+  sessions: number;
+  completedSessions: number;
+  completionRate: number;  // 0 to 1
+  averageSessionLength: number;  // Seconds
+}
+
+// Default number of buckets shown for each granularity
+export const DEFAULT_PERIODS: Record<Granularity, number> = {
+  daily: 14,
+  weekly: 12,
+  monthly: 12
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Local start of the bucket containing a date; weeks start on Monday
+export const getBucketStart = (date: Date, granularity: Granularity): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (granularity === 'weekly') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  } else if (granularity === 'monthly') {
+    start.setDate(1);
+  }
+  return start;
+};
+
+// Move a bucket start by a number of buckets
+const shiftBucket = (start: Date, granularity: Granularity, amount: number): Date => {
+  const shifted = new Date(start);
+  switch (granularity) {
+    case 'daily':
+      shifted.setDate(shifted.getDate() + amount);
+      break;
+    case 'weekly':
+      shifted.setDate(shifted.getDate() + amount * 7);
+      break;
+    case 'monthly':
+      shifted.setMonth(shifted.getMonth() + amount);
+      break;
+  }
+  return shifted;
+};
+
+// Local start of the first of a number of buckets ending with the current one
+export const getPeriodStart = (granularity: Granularity, periods: number, now: Date): Date => {
+  return shiftBucket(getBucketStart(now, granularity), granularity, -(periods - 1));
+};
+
+const formatBucketLabel = (start: Date, granularity: Granularity): string => {
+  if (granularity === 'monthly') {
+    return `${MONTHS[start.getMonth()]} ${start.getFullYear().toString().slice(2)}`;
+  }
+  return `${MONTHS[start.getMonth()]} ${start.getDate()}`;
+};
+
+// Check a session against the phase filter
+export const matchesPhase = (session: SessionData, phase: PhaseFilter): boolean => {
+  return phase === 'all' || session.phase === phase;
+};
+
+// Check a session against the mode filter; sessions without a mode are pomodoros
+export const matchesMode = (session: SessionData, mode: ModeFilter): boolean => {
+  return mode === 'all' || (session.mode ?? 'pomodoro') === mode;
+};
+
+// Group sessions into consecutive time buckets ending with the current one
+export const aggregateSessions = (
+  sessions: SessionData[],
+  { granularity, phase, mode = 'all', periods, now }: AggregateOptions
+): SessionBucket[] => {
+  const current = getBucketStart(now, granularity);
+  const buckets: SessionBucket[] = [];
+  for (let i = periods - 1; i >= 0; i--) {
+    const start = shiftBucket(current, granularity, -i);
+    buckets.push({
+      start,
+      label: formatBucketLabel(start, granularity),
+      focusTime: 0,
+      breakTime: 0,
+      overtime: 0,
+      overtimeSessions: 0,
+      sessions: 0,
+      completedSessions: 0
+    });
+  }
+
+  const index = new Map(buckets.map((bucket, i) => [bucket.start.getTime(), i]));
+
+  sessions.forEach(session => {
+    if (!matchesPhase(session, phase) || !matchesMode(session, mode)) return;
+    const start = getBucketStart(new Date(session.startTime), granularity);
+    const bucketIndex = index.get(start.getTime());
+    if (bucketIndex === undefined) return;
+
+    const bucket = buckets[bucketIndex];
+    if (session.phase === 'focus') {
+      bucket.focusTime += session.duration;
+    } else {
+      bucket.breakTime += session.duration;
+    }
+    if (session.overtime) {
+      bucket.overtime += session.overtime;
+      bucket.overtimeSessions += 1;
+    }
+    bucket.sessions += 1;
+    if (session.completed) {
+      bucket.completedSessions += 1;
+    }
+  });
+
+  return buckets;
+};
+
+// Totals, completion rate and average length across buckets
+export const summarizeBuckets = (buckets: SessionBucket[]): SessionSummary => {
+  const totals = buckets.reduce(
+    (sum, bucket) => ({
+      focusTime: sum.focusTime + bucket.focusTime,
+      breakTime: sum.breakTime + bucket.breakTime,
+      overtime: sum.overtime + bucket.overtime,
+      overtimeSessions: sum.overtimeSessions + bucket.overtimeSessions,
+      sessions: sum.sessions + bucket.sessions,
+      completedSessions: sum.completedSessions + bucket.completedSessions
+    }),
+    { focusTime: 0, breakTime: 0, overtime: 0, overtimeSessions: 0, sessions: 0, completedSessions: 0 }
+  );
+
+  return {
+    ...totals,
+    completionRate: totals.sessions > 0 ? totals.completedSessions / totals.sessions : 0,
+    averageSessionLength: totals.sessions > 0
+      ? (totals.focusTime + totals.breakTime) / totals.sessions
+      : 0
+  };
+};
+
+// How often phases were skipped, extended or ended early
+export interface PhaseAdjustments {
+  breaks: number;  // Breaks started or skipped
+  skippedBreaks: number;
+  focusSessions: number;
+  skippedFocusSessions: number;
+  extendedSessions: number;
+  extension: number;  // Seconds added in total
+  endedEarly: number;
+}
+
+export const summarizeAdjustments = (sessions: SessionData[]): PhaseAdjustments => {
+  return sessions.reduce((totals, session) => {
+    const skipped = session.outcome === 'skipped' ? 1 : 0;
+    return {
+      breaks: totals.breaks + (session.phase === 'focus' ? 0 : 1),
+      skippedBreaks: totals.skippedBreaks + (session.phase === 'focus' ? 0 : skipped),
+      focusSessions: totals.focusSessions + (session.phase === 'focus' ? 1 : 0),
+      skippedFocusSessions: totals.skippedFocusSessions + (session.phase === 'focus' ? skipped : 0),
+      extendedSessions: totals.extendedSessions + (session.extension ? 1 : 0),
+      extension: totals.extension + (session.extension ?? 0),
+      endedEarly: totals.endedEarly + (session.endedEarly ? 1 : 0)
+    };
+  }, {
+    breaks: 0,
+    skippedBreaks: 0,
+    focusSessions: 0,
+    skippedFocusSessions: 0,
+    extendedSessions: 0,
+    extension: 0,
+    endedEarly: 0
+  });
+};
+
+// Interruptions logged during focus sessions, by type
+export interface InterruptionSummary {
+  total: number;
+  internal: number;
+  external: number;
+  focusSessions: number;
+  interruptedSessions: number;  // Focus sessions with at least one interruption
+}
+
+export const summarizeInterruptions = (sessions: SessionData[]): InterruptionSummary => {
+  return sessions.reduce((totals, session) => {
+    if (session.phase !== 'focus') return totals;
+    const interruptions = session.interruptions ?? [];
+    const internal = interruptions.filter(interruption => interruption.type === 'internal').length;
+    return {
+      total: totals.total + interruptions.length,
+      internal: totals.internal + internal,
+      external: totals.external + interruptions.length - internal,
+      focusSessions: totals.focusSessions + 1,
+      interruptedSessions: totals.interruptedSessions + (interruptions.length > 0 ? 1 : 0)
+    };
+  }, {
+    total: 0,
+    internal: 0,
+    external: 0,
+    focusSessions: 0,
+    interruptedSessions: 0
+  });
+};
+
+// Time spent in one named phase of a custom sequence
+export interface PhaseTotal {
+  name: string;
+  time: number;
+  sessions: number;
+}
+
+const CLASSIC_PHASE_NAMES: Record<SessionData['phase'], string> = {
+  focus: 'Focus',
+  break: 'Break',
+  longBreak: 'Long break'
+};
+
+// Totals per phase name, longest first; classic sessions are grouped by their kind
+export const summarizePhaseNames = (sessions: SessionData[]): PhaseTotal[] => {
+  const totals = new Map<string, PhaseTotal>();
+  sessions.forEach(session => {
+    const name = session.phaseName ?? CLASSIC_PHASE_NAMES[session.phase];
+    const total = totals.get(name) ?? { name, time: 0, sessions: 0 };
+    total.time += session.duration;
+    total.sessions += 1;
+    totals.set(name, total);
+  });
+  return [...totals.values()].sort((a, b) => b.time - a.time);
+};
+
+export interface StreakOptions {
+  dayStartHour: number;  // Local hour at which a new day begins
+  minimumSessions: number;  // Completed focus sessions needed for a day to count
+  now: Date;
+}
+
+export interface Streaks {
+  current: number;
+  longest: number;
+}
+
+const toDayKey = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Local calendar day (YYYY-MM-DD) of a moment, for days that begin at dayStartHour.
+// The hours are moved on the local clock, so days that change to or from
+// daylight saving time still begin at dayStartHour.
+export const getDayKey = (date: Date, dayStartHour = 0): string => {
+  const shifted = new Date(date);
+  shifted.setHours(shifted.getHours() - dayStartHour);
+  return toDayKey(shifted);
+};
+
+// Day key a number of days away from the given one
+const shiftDayKey = (dayKey: string, days: number): string => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return toDayKey(new Date(year, month - 1, day + days));
+};
+
+// Current and longest runs of consecutive days meeting the daily minimum.
+// Today only extends the current streak once it qualifies; until then the
+// streak still counts up to yesterday.
+export const calculateStreaks = (
+  sessions: SessionData[],
+  { dayStartHour, minimumSessions, now }: StreakOptions
+): Streaks => {
+  const counts = new Map<string, number>();
+  sessions.forEach(session => {
+    if (session.phase !== 'focus' || !session.completed) return;
+    const key = getDayKey(new Date(session.startTime), dayStartHour);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  const qualifying = new Set(
+    Array.from(counts.entries())
+      .filter(([, count]) => count >= Math.max(1, minimumSessions))
+      .map(([key]) => key)
+  );
+
+  let longest = 0;
+  qualifying.forEach(key => {
+    // Only count runs from their first day
+    if (qualifying.has(shiftDayKey(key, -1))) return;
+    let length = 0;
+    let dayKey = key;
+    while (qualifying.has(dayKey)) {
+      length += 1;
+      dayKey = shiftDayKey(dayKey, 1);
+    }
+    longest = Math.max(longest, length);
+  });
+
+  let current = 0;
+  let dayKey = getDayKey(now, dayStartHour);
+  if (!qualifying.has(dayKey)) {
+    dayKey = shiftDayKey(dayKey, -1);
+  }
+  while (qualifying.has(dayKey)) {
+    current += 1;
+    dayKey = shiftDayKey(dayKey, -1);
+  }
+
+  return { current, longest };
+};
+
+export interface GoalProgress {
+  current: number;
+  target: number;
+  met: boolean;
+}
+
+export interface GoalsProgress {
+  daily: GoalProgress | null;  // Completed pomodoros today
+  weekly: GoalProgress | null;  // Focus hours this week
+}
+
+// Progress towards the daily and weekly goals; a target of 0 disables a goal
+export const calculateGoalProgress = (
+  sessions: SessionData[],
+  goals: FocusGoals,
+  { dayStartHour, now }: { dayStartHour: number; now: Date }
+): GoalsProgress => {
+  const todayKey = getDayKey(now, dayStartHour);
+  const [year, month, day] = todayKey.split('-').map(Number);
+  const weekStartKey = toDayKey(getBucketStart(new Date(year, month - 1, day), 'weekly'));
+
+  let pomodorosToday = 0;
+  let focusThisWeek = 0;
+  sessions.forEach(session => {
+    if (session.phase !== 'focus') return;
+    const key = getDayKey(new Date(session.startTime), dayStartHour);
+    if (key === todayKey && session.completed) {
+      pomodorosToday += 1;
+    }
+    if (key >= weekStartKey && key <= todayKey) {
+      focusThisWeek += session.duration;
+    }
+  });
+
+  const toProgress = (current: number, target: number): GoalProgress | null => (
+    target > 0 ? { current, target, met: current >= target } : null
+  );
+
+  return {
+    daily: toProgress(pomodorosToday, goals.dailyPomodoros),
+    weekly: toProgress(focusThisWeek / 3600, goals.weeklyFocusHours)
+  };
+};
@@ -0,0 +1,75 @@
+import { Subscription, SubscriptionTier } from '../types/timer';
+import { getSubscription, saveSubscription } from './storage';
+
+// Billing goes through a provider so the payment service can be swapped out.
+// Until a real one is configured the local mock is used, which changes tiers
+// and starts trials immediately without taking payment.
+
+export interface BillingProvider {
+  getSubscription: () => Promise<Subscription>;
+  // Move to a tier; paid tiers start a new billing period
+  changeTier: (tier: SubscriptionTier) => Promise<Subscription>;
+  // Try a tier for free; throws if the trial has already been used
+  startTrial: (tier: SubscriptionTier) => Promise<Subscription>;
+}
+
+export interface MockBillingOptions {
+  periodDays?: number;  // Length of a paid period
+  trialDays?: number;
+  now?: () => Date;  // Clock, so expiry can be tested without waiting
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Keeps the subscription in local storage
+export const createMockBillingProvider = ({
+  periodDays = 30,
+  trialDays = 14,
+  now = () => new Date()
+}: MockBillingOptions = {}): BillingProvider => {
+  const daysFromNow = (days: number) => new Date(now().getTime() + days * DAY).toISOString();
+
+  const update = (changes: Partial<Subscription>): Subscription => {
+    const subscription = { ...getSubscription(), ...changes };
+    saveSubscription(subscription);
+    return subscription;
+  };
+
+  return {
+    getSubscription: async () => getSubscription(),
+    changeTier: async tier => update({
+      tier,
+      expiresAt: tier === 'free' ? null : daysFromNow(periodDays),
+      trial: null
+    }),
+    startTrial: async tier => {
+      if (getSubscription().hasUsedTrial) {
+        throw new Error('The free trial has already been used');
+      }
+      return update({
+        trial: { tier, endsAt: daysFromNow(trialDays) },
+        hasUsedTrial: true
+      });
+    }
+  };
+};
+
+let provider: BillingProvider = createMockBillingProvider();
+
+export const getBillingProvider = (): BillingProvider => provider;
+
+export const setBillingProvider = (billingProvider: BillingProvider): void => {
+  provider = billingProvider;
+};
+
+// Store the provider's current view of the subscription
+export const refreshSubscription = async (): Promise<void> => {
+  try {
+    const subscription = await provider.getSubscription();
+    if (JSON.stringify(subscription) !== JSON.stringify(getSubscription())) {
+      saveSubscription(subscription);
+    }
+  } catch (error) {
+    console.error('Error loading subscription:', error);
+  }
+};
@@ -0,0 +1,118 @@
+import type { CalendarSource } from '../types/calendar';
+import { CalendarEvent, Meeting, expandEvents, parseICalendar } from './icalendar';
+import { getActiveProfile, getCalendar, saveCalendar } from './storage';
+
+// Meetings imported from a calendar file or subscribed URL, and the planned
+// focus blocks shared with the calendar feed served by /api/calendar.
+
+// How often a subscribed calendar is reloaded
+export const CALENDAR_REFRESH_INTERVAL = 30 * 60 * 1000;
+
+export type CalendarImportResult =
+  | { valid: true; eventCount: number }
+  | { valid: false; reason: string };
+
+// A meeting that a session starting now would run into
+export interface MeetingConflict {
+  meeting: Meeting;
+  availableSeconds: number;  // Time before the meeting starts; 0 once it is under way
+}
+
+// The stored calendar is only parsed again when it changes
+let parsed: { ics: string; events: CalendarEvent[] } | null = null;
+
+const getEvents = (): CalendarEvent[] => {
+  const calendar = getCalendar();
+  if (!calendar) return [];
+  if (parsed?.ics !== calendar.ics) {
+    parsed = { ics: calendar.ics, events: parseICalendar(calendar.ics) };
+  }
+  return parsed.events;
+};
+
+// Check and store a calendar's contents
+export const importCalendar = (source: CalendarSource, ics: string): CalendarImportResult => {
+  if (!/BEGIN:VCALENDAR/i.test(ics)) {
+    return { valid: false, reason: 'The file is not an iCalendar file' };
+  }
+  const events = parseICalendar(ics);
+  saveCalendar({ source, ics, importedAt: new Date().toISOString() });
+  return { valid: true, eventCount: events.length };
+};
+
+// Load a calendar by URL through the server, which is not held back by CORS
+const fetchCalendar = async (url: string): Promise<string> => {
+  const response = await fetch(`/api/calendar/fetch?url=${encodeURIComponent(url)}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `The calendar could not be loaded (${response.status})`);
+  }
+  return response.text();
+};
+
+export const subscribeToCalendar = async (url: string): Promise<CalendarImportResult> => {
+  try {
+    return importCalendar({ type: 'url', url }, await fetchCalendar(url));
+  } catch (error) {
+    return { valid: false, reason: error instanceof Error ? error.message : 'The calendar could not be loaded' };
+  }
+};
+
+// Reload a subscribed calendar; returns false if it could not be loaded
+export const refreshCalendar = async (): Promise<boolean> => {
+  const calendar = getCalendar();
+  if (calendar?.source.type !== 'url') return true;
+  try {
+    const ics = await fetchCalendar(calendar.source.url);
+    if (ics !== calendar.ics) {
+      importCalendar(calendar.source, ics);
+    }
+    return true;
+  } catch (error) {
+    console.error('Error refreshing calendar:', error);
+    return false;
+  }
+};
+
+// Meetings overlapping the range, in order
+export const getMeetings = (from: Date, to: Date): Meeting[] => {
+  return expandEvents(getEvents(), from, to);
+};
+
+// First meeting a session of the given length would overlap. All-day events
+// such as holidays do not count.
+export const findMeetingConflict = (start: Date, durationSeconds: number): MeetingConflict | null => {
+  const end = new Date(start.getTime() + durationSeconds * 1000);
+  const meeting = getMeetings(start, end).find(candidate => !candidate.isAllDay);
+  if (!meeting) return null;
+  return {
+    meeting,
+    availableSeconds: Math.max(0, Math.floor((meeting.start.getTime() - start.getTime()) / 1000))
+  };
+};
+
+// Address of the active profile's calendar feed
+export const getCalendarFeedUrl = (origin: string): string => {
+  return `${origin}/api/calendar?profile=${encodeURIComponent(getActiveProfile().id)}`;
+};
+
+// Share the running timer's plan with the active profile's calendar feed
+export const publishPlannedBlocks = async (blocks: { start: number; end: number }[]): Promise<void> => {
+  try {
+    const response = await fetch(`/api/calendar/plan?profile=${encodeURIComponent(getActiveProfile().id)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        blocks: blocks.map(block => ({
+          start: new Date(block.start).toISOString(),
+          end: new Date(block.end).toISOString()
+        }))
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`Server answered ${response.status}`);
+    }
+  } catch (error) {
+    console.error('Error publishing planned focus blocks:', error);
+  }
+};
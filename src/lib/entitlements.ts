@@ -0,0 +1,64 @@
+import { Subscription, SubscriptionFeatures, SubscriptionTier } from '../types/timer';
+
+export type Feature = keyof SubscriptionFeatures;
+
+// Tiers from lowest to highest
+export const TIERS: SubscriptionTier[] = ['free', 'premium', 'pro'];
+
+export const TIER_NAMES: Record<SubscriptionTier, string> = {
+  free: 'Free',
+  premium: 'Premium',
+  pro: 'Pro'
+};
+
+// Features included in each tier; every tier includes those of the tiers below it
+export const TIER_FEATURES: Record<SubscriptionTier, SubscriptionFeatures> = {
+  free: {
+    customTimerDurations: false,
+    aiInsights: false,
+    calendarSync: false,
+    advancedAnalytics: false,
+    premiumThemes: false
+  },
+  premium: {
+    customTimerDurations: true,
+    aiInsights: false,
+    calendarSync: false,
+    advancedAnalytics: true,
+    premiumThemes: true
+  },
+  pro: {
+    customTimerDurations: true,
+    aiInsights: true,
+    calendarSync: true,
+    advancedAnalytics: true,
+    premiumThemes: true
+  }
+};
+
+const higherTier = (a: SubscriptionTier, b: SubscriptionTier): SubscriptionTier => {
+  return TIERS.indexOf(a) >= TIERS.indexOf(b) ? a : b;
+};
+
+// Tier whose features apply at the given time, once expired periods and trials are dropped
+export const getEffectiveTier = (subscription: Subscription, now: Date): SubscriptionTier => {
+  const isExpired = subscription.expiresAt !== null && new Date(subscription.expiresAt) <= now;
+  const paidTier = isExpired ? 'free' : subscription.tier;
+  if (subscription.trial && new Date(subscription.trial.endsAt) > now) {
+    return higherTier(paidTier, subscription.trial.tier);
+  }
+  return paidTier;
+};
+
+export const getFeatures = (subscription: Subscription, now: Date): SubscriptionFeatures => {
+  return TIER_FEATURES[getEffectiveTier(subscription, now)];
+};
+
+export const hasFeature = (subscription: Subscription, feature: Feature, now: Date): boolean => {
+  return getFeatures(subscription, now)[feature];
+};
+
+// Lowest tier that includes a feature, for upgrade prompts
+export const getRequiredTier = (feature: Feature): SubscriptionTier => {
+  return TIERS.find(tier => TIER_FEATURES[tier][feature]) ?? TIERS[TIERS.length - 1];
+};
@@ -0,0 +1,196 @@
+import type { Task } from '../types/timer';
+import type { PlannedBlock } from '../types/calendar';
+import type { SessionData } from './storage';
+import { PhaseFilter, matchesPhase } from './analytics';
+
+// Pure serializers for session history. They take sessions and tasks as
+// arguments so they can be tested without storage or the DOM.
+
+export interface ExportFilter {
+  from: Date | null;  // Inclusive
+  to: Date | null;  // Exclusive
+  phase: PhaseFilter;
+}
+
+const PHASE_LABELS: Record<SessionData['phase'], string> = {
+  focus: 'Focus',
+  break: 'Break',
+  longBreak: 'Long break'
+};
+
+// Sessions starting inside the date range and matching the phase filter
+export const filterSessions = (sessions: SessionData[], { from, to, phase }: ExportFilter): SessionData[] => {
+  return sessions.filter(session => {
+    const start = new Date(session.startTime).getTime();
+    return matchesPhase(session, phase) &&
+      (!from || start >= from.getTime()) &&
+      (!to || start < to.getTime());
+  });
+};
+
+// Quote a CSV field when it contains a delimiter, quote or line break
+const escapeCsv = (value: string | number | boolean | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per session. Task, preset, mode, overtime and adjustment columns are
+// only added when a session has one.
+export const sessionsToCsv = (sessions: SessionData[], tasks: Task[] = []): string => {
+  const taskTitles = new Map(tasks.map(task => [task.id, task.title]));
+  const hasTasks = sessions.some(session => session.taskId);
+  const hasPresets = sessions.some(session => session.presetId);
+  const hasModes = sessions.some(session => session.mode);
+  const hasOvertime = sessions.some(session => session.overtime);
+  const hasAdjustments = sessions.some(session => session.extension || session.endedEarly);
+
+  const header = [
+    'id',
+    'start',
+    'end',
+    'phase',
+    'outcome',
+    'completed',
+    'duration_seconds',
+    'planned_duration_seconds',
+    'paused_seconds',
+    'pause_count',
+    'interruptions',
+    ...(hasTasks ? ['task_id', 'task'] : []),
+    ...(hasPresets ? ['preset_id'] : []),
+    ...(hasModes ? ['mode'] : []),
+    ...(hasOvertime ? ['overtime_seconds'] : []),
+    ...(hasAdjustments ? ['extension_seconds', 'ended_early'] : [])
+  ];
+
+  const rows = sessions.map(session => [
+    session.id,
+    session.startTime,
+    session.endTime,
+    session.phase,
+    session.outcome,
+    session.completed,
+    Math.round(session.duration),
+    Math.round(session.plannedDuration),
+    Math.round(session.pausedTime),
+    session.pauseCount,
+    session.interruptions?.length ?? 0,
+    ...(hasTasks ? [session.taskId ?? '', session.taskId ? taskTitles.get(session.taskId) ?? '' : ''] : []),
+    ...(hasPresets ? [session.presetId ?? ''] : []),
+    ...(hasModes ? [session.mode ?? 'pomodoro'] : []),
+    ...(hasOvertime ? [Math.round(session.overtime ?? 0)] : []),
+    ...(hasAdjustments ? [Math.round(session.extension ?? 0), session.endedEarly ?? false] : [])
+  ]);
+
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+};
+
+// UTC date-time in iCalendar basic format, e.g. 20240101T093000Z
+const formatICalendarDate = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+const escapeICalendarText = (text: string): string => {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+// Bytes a code point takes in UTF-8
+const getUtf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+};
+
+// Fold content lines longer than 75 octets, as RFC 5545 requires. Lines are
+// only split between code points, so multi-byte characters stay whole.
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let part = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = getUtf8Length(char);
+    // Continuation lines start with a space, so they carry one octet less
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = '';
+      size = 0;
+    }
+    part += char;
+    size += charSize;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+};
+
+// One VEVENT per session, titled with its phase and task, and a tentative
+// one per planned focus block
+export const sessionsToICalendar = (
+  sessions: SessionData[],
+  tasks: Task[] = [],
+  now: Date = new Date(),
+  planned: PlannedBlock[] = []
+): string => {
+  const taskTitles = new Map(tasks.map(task => [task.id, task.title]));
+  const stamp = formatICalendarDate(now);
+
+  const events = sessions.flatMap(session => {
+    const task = session.taskId ? taskTitles.get(session.taskId) : undefined;
+    const minutes = Math.round(session.duration / 60);
+    const description = [
+      `Outcome: ${session.outcome}`,
+      `Duration: ${minutes} min of ${Math.round(session.plannedDuration / 60)} min`,
+      ...(session.interruptions?.length ? [`Interruptions: ${session.interruptions.length}`] : [])
+    ].join('\n');
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${session.id}@pomodoro`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatICalendarDate(new Date(session.startTime))}`,
+      `DTEND:${formatICalendarDate(new Date(session.endTime))}`,
+      `SUMMARY:${escapeICalendarText(task ? `${PHASE_LABELS[session.phase]}: ${task}` : PHASE_LABELS[session.phase])}`,
+      `DESCRIPTION:${escapeICalendarText(description)}`,
+      'TRANSP:OPAQUE',
+      'END:VEVENT'
+    ];
+  });
+
+  const plannedEvents = planned.flatMap(block => {
+    const start = formatICalendarDate(new Date(block.start));
+    return [
+      'BEGIN:VEVENT',
+      `UID:planned-${start}@pomodoro`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${start}`,
+      `DTEND:${formatICalendarDate(new Date(block.end))}`,
+      'SUMMARY:Planned focus',
+      'STATUS:TENTATIVE',
+      'TRANSP:OPAQUE',
+      'END:VEVENT'
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Pomodoro 2.0//Session History//EN',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    ...plannedEvents,
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
+
+// Offer content to the user as a file download
+export const downloadFile = (filename: string, content: string, type: string): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,504 @@
+// Reads meetings from iCalendar (RFC 5545) data. Recurrence rules are
+// expanded and times are placed on the timeline using the time zone they were
+// written in. Everything here is pure, so it can be run against fixture files.
+
+// A single occurrence of an event
+export interface Meeting {
+  uid: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  isAllDay: boolean;
+}
+
+// Date-time as written in the file, before it is placed on the timeline
+interface WallTime {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  timeZone: string | null;  // IANA zone or 'UTC'; null for floating local time
+  isDate: boolean;  // All-day value without a time
+}
+
+type DateParts = Pick<WallTime, 'year' | 'month' | 'day'>;
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count: number | null;
+  until: number | null;  // Epoch milliseconds, inclusive
+  byDay: { weekday: number; ordinal: number }[];  // weekday 0 is Sunday; ordinal 0 means every
+  byMonthDay: number[];  // Negative days count from the end of the month
+  byMonth: number[];
+}
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  start: WallTime;
+  duration: number;  // Milliseconds
+  rule: RecurrenceRule | null;
+  exdates: number[];  // Epoch milliseconds of excluded occurrences
+  recurrenceId: number | null;  // Start of the occurrence this event replaces
+  isCancelled: boolean;
+  isFree: boolean;  // Marked transparent, so it does not block time
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// No time zone is more than 14 hours from UTC
+const MAX_ZONE_OFFSET = 15 * HOUR;
+
+// Upper bound on recurrence periods examined, so a bad rule cannot hang the app
+const MAX_PERIODS = 20000;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Outlook writes Windows zone names; these are the most common ones
+const WINDOWS_ZONES: Record<string, string> = {
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'E. Europe Standard Time': 'Europe/Bucharest',
+  'India Standard Time': 'Asia/Kolkata',
+  'China Standard Time': 'Asia/Shanghai',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'UTC': 'UTC'
+};
+
+const isKnownTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Map a TZID to an IANA zone. Unknown zones give null and are read as local time.
+const resolveTimeZone = (tzid: string | undefined): string | null => {
+  if (!tzid) return null;
+  if (WINDOWS_ZONES[tzid]) return WINDOWS_ZONES[tzid];
+  if (isKnownTimeZone(tzid)) return tzid;
+  // Some producers prefix the IANA name, e.g. /mozilla.org/20050126_1/Europe/Berlin
+  const match = /([A-Za-z]+\/[A-Za-z_+-]+(?:\/[A-Za-z_+-]+)?)$/.exec(tzid);
+  return match && isKnownTimeZone(match[1]) ? match[1] : null;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Milliseconds the zone is ahead of UTC at the given instant
+const getZoneOffset = (timeZone: string, epoch: number): number => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(
+    formatter.formatToParts(new Date(epoch)).map(part => [part.type, Number(part.value)])
+  );
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (epoch - (epoch % 1000));
+};
+
+// Place a wall time on the timeline
+const toInstant = (time: WallTime): number => {
+  const { year, month, day, hour, minute, second, timeZone } = time;
+  if (timeZone === 'UTC') {
+    return Date.UTC(year, month - 1, day, hour, minute, second);
+  }
+  if (timeZone === null) {
+    return new Date(year, month - 1, day, hour, minute, second).getTime();
+  }
+  // Correct the guess once more in case it crossed a daylight saving change
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second);
+  const offset = getZoneOffset(timeZone, guess);
+  const correctedOffset = getZoneOffset(timeZone, guess - offset);
+  return guess - correctedOffset;
+};
+
+// Calendar arithmetic on dates, independent of any time zone
+const addDays = ({ year, month, day }: DateParts, days: number): DateParts => {
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+const getWeekday = ({ year, month, day }: DateParts): number => {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+const getDaysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+const unescapeText = (value: string): string => {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+};
+
+// Split a content line into its name, parameters and value
+const parseContentLine = (line: string): ContentLine | null => {
+  let inQuotes = false;
+  const separators: number[] = [];
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === ';') {
+      separators.push(i);
+    } else if (!inQuotes && char === ':') {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const bounds = [...separators, colon];
+  const params: Record<string, string> = {};
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const param = line.slice(bounds[i] + 1, bounds[i + 1]);
+    const equals = param.indexOf('=');
+    if (equals === -1) continue;
+    params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, '');
+  }
+
+  return {
+    name: line.slice(0, bounds[0]).toUpperCase(),
+    params,
+    value: line.slice(colon + 1)
+  };
+};
+
+const parseDateTime = (
+  value: string,
+  params: Record<string, string>,
+  defaultZone: string | null
+): WallTime | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const isDate = params.VALUE === 'DATE' || match[4] === undefined;
+  let timeZone: string | null = null;
+  if (match[7]) {
+    timeZone = 'UTC';
+  } else if (!isDate) {
+    timeZone = resolveTimeZone(params.TZID) ?? defaultZone;
+  }
+  return {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4] ?? 0),
+    minute: Number(match[5] ?? 0),
+    second: Number(match[6] ?? 0),
+    timeZone,
+    isDate
+  };
+};
+
+// ISO 8601 duration such as PT1H30M or P1D, in milliseconds
+const parseDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = Number(weeks ?? 0) * 7 * DAY
+    + Number(days ?? 0) * DAY
+    + Number(hours ?? 0) * HOUR
+    + Number(minutes ?? 0) * MINUTE
+    + Number(seconds ?? 0) * 1000;
+  return sign === '-' ? -total : total;
+};
+
+const parseRule = (value: string, start: WallTime): RecurrenceRule | null => {
+  const parts = Object.fromEntries(
+    value.split(';').map(part => {
+      const [key, partValue = ''] = part.split('=');
+      return [key.toUpperCase(), partValue.toUpperCase()];
+    })
+  );
+  const freq = parts.FREQ as Frequency;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return null;
+
+  const toNumbers = (list: string | undefined) => (list ? list.split(',').map(Number).filter(Number.isFinite) : []);
+
+  let until: number | null = null;
+  if (parts.UNTIL) {
+    const untilTime = parseDateTime(parts.UNTIL, {}, start.timeZone);
+    if (untilTime) {
+      // A date-only UNTIL includes the whole of that day where the event takes place
+      until = untilTime.isDate
+        ? toInstant({ ...untilTime, hour: 23, minute: 59, second: 59, timeZone: start.timeZone, isDate: false })
+        : toInstant(untilTime);
+    }
+  }
+
+  const byDay = (parts.BYDAY ? parts.BYDAY.split(',') : [])
+    .map((day: string) => {
+      const match = /^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(day);
+      return match ? { weekday: WEEKDAYS.indexOf(match[2]), ordinal: Number(match[1] ?? 0) } : null;
+    })
+    .filter((day): day is { weekday: number; ordinal: number } => day !== null);
+
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Math.max(0, Number(parts.COUNT) || 0) : null,
+    until,
+    byDay,
+    byMonthDay: toNumbers(parts.BYMONTHDAY),
+    byMonth: toNumbers(parts.BYMONTH)
+  };
+};
+
+const buildEvent = (lines: ContentLine[], defaultZone: string | null): CalendarEvent | null => {
+  const find = (name: string) => lines.find(line => line.name === name);
+
+  const dtstart = find('DTSTART');
+  const start = dtstart ? parseDateTime(dtstart.value, dtstart.params, defaultZone) : null;
+  if (!start) return null;
+  const startInstant = toInstant(start);
+
+  const dtend = find('DTEND');
+  const end = dtend ? parseDateTime(dtend.value, dtend.params, defaultZone) : null;
+  const durationLine = find('DURATION');
+  let duration = start.isDate ? DAY : 0;
+  if (end) {
+    duration = toInstant(end) - startInstant;
+  } else if (durationLine) {
+    duration = parseDuration(durationLine.value) ?? duration;
+  }
+
+  const rrule = find('RRULE');
+  const recurrenceIdLine = find('RECURRENCE-ID');
+  const recurrenceId = recurrenceIdLine
+    ? parseDateTime(recurrenceIdLine.value, recurrenceIdLine.params, defaultZone)
+    : null;
+
+  const exdates = lines
+    .filter(line => line.name === 'EXDATE')
+    .flatMap(line => line.value.split(',').map(value => parseDateTime(value, line.params, defaultZone)))
+    .filter((time): time is WallTime => time !== null)
+    // Date-only exclusions take the event's time of day
+    .map(time => toInstant(time.isDate && !start.isDate
+      ? { ...time, hour: start.hour, minute: start.minute, second: start.second, timeZone: start.timeZone, isDate: false }
+      : time));
+
+  return {
+    uid: find('UID')?.value ?? `${startInstant}`,
+    summary: unescapeText(find('SUMMARY')?.value ?? ''),
+    start,
+    duration: Math.max(0, duration),
+    rule: rrule ? parseRule(rrule.value, start) : null,
+    exdates,
+    recurrenceId: recurrenceId ? toInstant(recurrenceId) : null,
+    isCancelled: find('STATUS')?.value.toUpperCase() === 'CANCELLED',
+    isFree: find('TRANSP')?.value.toUpperCase() === 'TRANSPARENT'
+  };
+};
+
+// Read every event in a calendar. Events without a usable start are skipped.
+export const parseICalendar = (text: string): CalendarEvent[] => {
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .map(parseContentLine)
+    .filter((line): line is ContentLine => line !== null);
+
+  const events: CalendarEvent[] = [];
+  const components: string[] = [];
+  let eventLines: ContentLine[] | null = null;
+  let defaultZone: string | null = null;
+
+  lines.forEach(line => {
+    const component = line.value.toUpperCase();
+    if (line.name === 'BEGIN') {
+      components.push(component);
+      if (component === 'VEVENT') eventLines = [];
+      return;
+    }
+    if (line.name === 'END') {
+      components.pop();
+      if (component === 'VEVENT' && eventLines) {
+        const event = buildEvent(eventLines, defaultZone);
+        if (event) events.push(event);
+        eventLines = null;
+      }
+      return;
+    }
+
+    const current = components[components.length - 1];
+    if (current === 'VCALENDAR' && line.name === 'X-WR-TIMEZONE') {
+      // Calendar-wide zone for times written without one
+      defaultZone = resolveTimeZone(line.value);
+    } else if (current === 'VEVENT' && eventLines) {
+      eventLines.push(line);
+    }
+  });
+
+  return events;
+};
+
+// Days of a month matching BYMONTHDAY or BYDAY, or the start's day of the month
+const getMonthDays = (year: number, month: number, rule: RecurrenceRule, startDay: number): number[] => {
+  const daysInMonth = getDaysInMonth(year, month);
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay
+      .map(day => (day < 0 ? daysInMonth + day + 1 : day))
+      .filter(day => day >= 1 && day <= daysInMonth);
+  }
+  if (rule.byDay.length > 0) {
+    const firstWeekday = getWeekday({ year, month, day: 1 });
+    return rule.byDay.flatMap(({ weekday, ordinal }) => {
+      const firstDay = 1 + ((weekday - firstWeekday + 7) % 7);
+      const matches: number[] = [];
+      for (let day = firstDay; day <= daysInMonth; day += 7) matches.push(day);
+      if (ordinal === 0) return matches;
+      const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      return match === undefined ? [] : [match];
+    });
+  }
+  // Months without the start's day, such as the 31st, are skipped
+  return startDay <= daysInMonth ? [startDay] : [];
+};
+
+// Candidate dates in one period of the rule, in order
+const getPeriodDates = (start: WallTime, rule: RecurrenceRule, period: number): DateParts[] => {
+  const step = period * rule.interval;
+  let dates: DateParts[];
+
+  switch (rule.freq) {
+    case 'DAILY':
+      dates = [addDays(start, step)];
+      break;
+    case 'WEEKLY': {
+      // Weeks start on Monday
+      const weekStart = addDays(start, step * 7 - ((getWeekday(start) + 6) % 7));
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(day => day.weekday) : [getWeekday(start)];
+      dates = weekdays.map(weekday => addDays(weekStart, (weekday + 6) % 7));
+      break;
+    }
+    case 'MONTHLY': {
+      const monthIndex = start.month - 1 + step;
+      const year = start.year + Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      dates = getMonthDays(year, month, rule, start.day).map(day => ({ year, month, day }));
+      break;
+    }
+    case 'YEARLY': {
+      const year = start.year + step;
+      const months = rule.byMonth.length > 0 ? rule.byMonth : [start.month];
+      dates = months.flatMap(month => (
+        rule.byMonthDay.length > 0 || rule.byDay.length > 0
+          ? getMonthDays(year, month, rule, start.day)
+          : (start.day <= getDaysInMonth(year, month) ? [start.day] : [])
+      ).map(day => ({ year, month, day })));
+      break;
+    }
+  }
+
+  return dates
+    .filter(date => rule.byMonth.length === 0 || rule.byMonth.includes(date.month))
+    .filter(date => rule.freq !== 'DAILY' || rule.byDay.length === 0 || rule.byDay.some(day => day.weekday === getWeekday(date)))
+    .filter(date => rule.freq !== 'DAILY' || rule.byMonthDay.length === 0 || rule.byMonthDay.includes(date.day))
+    .sort((a, b) => Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day))
+    .filter((date, index, sorted) => index === 0 || Date.UTC(date.year, date.month - 1, date.day) !== Date.UTC(sorted[index - 1].year, sorted[index - 1].month - 1, sorted[index - 1].day));
+};
+
+// Start times of an event's occurrences that overlap the range
+const getOccurrenceStarts = (event: CalendarEvent, from: number, to: number): number[] => {
+  const { start, rule, duration } = event;
+  const firstStart = toInstant(start);
+  if (!rule) {
+    return firstStart < to && firstStart + duration > from ? [firstStart] : [];
+  }
+
+  const starts: number[] = [];
+  let count = 0;
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const date of getPeriodDates(start, rule, period)) {
+      // Cheap estimate of the start, good to within any zone offset
+      const estimate = Date.UTC(date.year, date.month - 1, date.day, start.hour, start.minute, start.second);
+      if (estimate < firstStart - MAX_ZONE_OFFSET) continue;
+      if (estimate - MAX_ZONE_OFFSET >= to) return starts;
+      if (rule.until !== null && estimate - MAX_ZONE_OFFSET > rule.until) return starts;
+      // Occurrences long before the range only need placing when they are counted
+      if (rule.count === null && estimate + duration + MAX_ZONE_OFFSET < from) continue;
+
+      const occurrence = toInstant({ ...start, ...date });
+      if (occurrence < firstStart) continue;
+      if (rule.until !== null && occurrence > rule.until) return starts;
+      count += 1;
+      if (rule.count !== null && count > rule.count) return starts;
+      if (occurrence < to && occurrence + duration > from) starts.push(occurrence);
+    }
+  }
+  return starts;
+};
+
+// Occurrences of the events that overlap [from, to), ordered by start.
+// Cancelled and free events are left out.
+export const expandEvents = (events: CalendarEvent[], from: Date, to: Date): Meeting[] => {
+  const rangeStart = from.getTime();
+  const rangeEnd = to.getTime();
+
+  // Occurrences replaced by a modified copy, by event uid
+  const replaced = new Map<string, Set<number>>();
+  events.forEach(event => {
+    if (event.recurrenceId === null) return;
+    if (!replaced.has(event.uid)) replaced.set(event.uid, new Set());
+    replaced.get(event.uid)!.add(event.recurrenceId);
+  });
+
+  const meetings: Meeting[] = [];
+  events.forEach(event => {
+    if (event.isCancelled || event.isFree) return;
+
+    // A modified occurrence stands on its own; a recurring event skips the ones it replaces
+    const excluded = event.recurrenceId === null
+      ? new Set([...event.exdates, ...(replaced.get(event.uid) ?? [])])
+      : new Set<number>();
+    const starts = event.recurrenceId === null
+      ? getOccurrenceStarts(event, rangeStart, rangeEnd)
+      : getOccurrenceStarts({ ...event, rule: null }, rangeStart, rangeEnd);
+
+    starts
+      .filter(start => !excluded.has(start))
+      .forEach(start => meetings.push({
+        uid: event.uid,
+        summary: event.summary,
+        start: new Date(start),
+        end: new Date(start + event.duration),
+        isAllDay: event.start.isDate
+      }));
+  });
+
+  return meetings.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
@@ -0,0 +1,129 @@
+import type { Task, TimerPreset } from '../types/timer';
+import type { SessionData } from './storage';
+
+// Pure merging of imported records into local ones, shared by the import
+// preview and the import itself.
+
+// replace: the file replaces local data
+// merge: records are combined and the file's copy wins for duplicates
+// skipDuplicates: records are combined and the local copy wins for duplicates
+export type ImportMode = 'replace' | 'merge' | 'skipDuplicates';
+
+export interface MergeResult<T> {
+  records: T[];
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+interface SessionInterval {
+  id: string;
+  start: number;
+  end: number;
+}
+
+const toInterval = (session: SessionData): SessionInterval => ({
+  id: session.id,
+  start: Date.parse(session.startTime),
+  end: Date.parse(session.endTime)
+});
+
+// The same session recorded twice shares an id, or at least its start time.
+// Sessions never run in parallel, so any overlap means a duplicate.
+const isDuplicateInterval = (a: SessionInterval, b: SessionInterval): boolean => {
+  return a.id === b.id || a.start === b.start || (a.start < b.end && b.start < a.end);
+};
+
+export const isDuplicateSession = (a: SessionData, b: SessionData): boolean => {
+  return isDuplicateInterval(toInterval(a), toInterval(b));
+};
+
+const byStartTime = (a: SessionData, b: SessionData) => a.startTime.localeCompare(b.startTime);
+
+// Combine imported sessions with local ones according to the import mode
+export const mergeSessions = (
+  local: SessionData[],
+  incoming: SessionData[],
+  mode: ImportMode
+): MergeResult<SessionData> => {
+  const merged = mode === 'replace' ? [] : [...local];
+  const intervals = merged.map(toInterval);
+  let added = 0;
+  let replaced = 0;
+  let skipped = 0;
+
+  incoming.forEach(session => {
+    const interval = toInterval(session);
+    // Duplicates within the file itself are collapsed too
+    const index = intervals.findIndex(existing => isDuplicateInterval(existing, interval));
+    if (index === -1) {
+      merged.push(session);
+      intervals.push(interval);
+      added += 1;
+    } else if (mode === 'skipDuplicates') {
+      skipped += 1;
+    } else {
+      merged[index] = session;
+      intervals[index] = interval;
+      replaced += 1;
+    }
+  });
+
+  return { records: merged.sort(byStartTime), added, replaced, skipped };
+};
+
+// Combine imported tasks with local ones by id, keeping local tasks first
+export const mergeTasks = (local: Task[], incoming: Task[], mode: ImportMode): MergeResult<Task> => {
+  const merged = mode === 'replace' ? [] : [...local];
+  let added = 0;
+  let replaced = 0;
+  let skipped = 0;
+
+  [...incoming].sort((a, b) => a.order - b.order).forEach(task => {
+    const index = merged.findIndex(existing => existing.id === task.id);
+    if (index === -1) {
+      merged.push(task);
+      added += 1;
+    } else if (mode === 'skipDuplicates') {
+      skipped += 1;
+    } else {
+      merged[index] = task;
+      replaced += 1;
+    }
+  });
+
+  return {
+    records: merged.map((task, order) => ({ ...task, order })),
+    added,
+    replaced,
+    skipped
+  };
+};
+
+// Combine imported presets with local ones by id
+export const mergePresets = (local: TimerPreset[], incoming: TimerPreset[], mode: ImportMode): TimerPreset[] => {
+  const merged = mode === 'replace' ? [] : [...local];
+  incoming.forEach(preset => {
+    const index = merged.findIndex(existing => existing.id === preset.id);
+    if (index === -1) {
+      merged.push(preset);
+    } else if (mode !== 'skipDuplicates') {
+      merged[index] = preset;
+    }
+  });
+  return merged;
+};
+
+export interface SettingChange {
+  field: string;
+  current: unknown;
+  incoming: unknown;
+}
+
+// Fields whose imported value differs from the current one
+export const diffSettings = <T extends object>(current: T, incoming: Partial<T>): SettingChange[] => {
+  return (Object.keys(incoming) as (keyof T & string)[])
+    // Compared as JSON so lists such as a phase sequence match by content
+    .filter(field => JSON.stringify(incoming[field]) !== JSON.stringify(current[field]))
+    .map(field => ({ field, current: current[field], incoming: incoming[field] }));
+};
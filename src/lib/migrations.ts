@@ -0,0 +1,60 @@
+import type { StorageKey } from './storage';
+
+// Schema migrations for stored data. Every key is stored in a
+// { version, data } envelope; values written before envelopes existed are
+// version 1. A migration upgrades a key's data by exactly one version, and
+// older data is walked up one step at a time until it is current.
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+type Migration = (data: unknown) => unknown;
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// v1 -> v2: sessions recorded before outcomes were tracked were always full and unpaused
+const addSessionOutcomes: Migration = data => {
+  if (!Array.isArray(data)) return data;
+  return data.map(session => {
+    if (!isObject(session)) return session;
+    return {
+      ...session,
+      outcome: session.outcome ?? (session.completed === false ? 'abandoned' : 'completed'),
+      plannedDuration: session.plannedDuration ?? session.duration ?? 0,
+      pausedTime: session.pausedTime ?? 0,
+      pauseCount: session.pauseCount ?? 0
+    };
+  });
+};
+
+// v1 -> v2: fill in timer fields added after the timer was first persisted
+const addTimerDefaults: Migration = data => {
+  if (!isObject(data)) return data;
+  return {
+    totalPausedTime: 0,
+    pauseCount: 0,
+    autoStartAt: null,
+    autoStartedPomodoros: 0,
+    interruptions: [],
+    ...data
+  };
+};
+
+// Migrations by key, then by the version they upgrade from
+const MIGRATIONS: Partial<Record<StorageKey, Record<number, Migration>>> = {
+  pomodoro_sessions: { 1: addSessionOutcomes },
+  pomodoro_active_timer: { 1: addTimerDefaults }
+};
+
+// Upgrade data for a key from the given version to the current one
+export const migrate = (key: StorageKey, data: unknown, fromVersion: number): unknown => {
+  let migrated = data;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[key]?.[version];
+    if (migration) {
+      migrated = migration(migrated);
+    }
+  }
+  return migrated;
+};
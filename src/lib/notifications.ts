@@ -0,0 +1,144 @@
+import { TimerPhase } from '../types/timer';
+
+// Browser notifications for phase changes. Notifications with action buttons
+// need a service worker registration; without one we fall back to a plain
+// Notification, and without the Notification API we do nothing at all.
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+export type NotificationAction = 'start' | 'skip';
+
+// Service worker notifications also take action buttons, which the DOM
+// typings leave out of NotificationOptions
+interface ServiceWorkerNotificationOptions extends NotificationOptions {
+  actions?: { action: NotificationAction; title: string }[];
+}
+
+const SERVICE_WORKER_URL = '/notification-sw.js';
+const NOTIFICATION_TAG = 'pomodoro-phase';
+
+let registrationPromise: Promise<ServiceWorkerRegistration | null> | null = null;
+
+// Check if the Notification API is available
+export const isNotificationSupported = (): boolean => {
+  return typeof window !== 'undefined' && 'Notification' in window;
+};
+
+// Get the current permission without prompting
+export const getNotificationPermission = (): NotificationPermissionState => {
+  if (!isNotificationSupported()) return 'unsupported';
+  return Notification.permission;
+};
+
+// Ask the user for permission to show notifications
+export const requestNotificationPermission = async (): Promise<NotificationPermissionState> => {
+  if (!isNotificationSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  try {
+    const permission = await Notification.requestPermission();
+    if (permission === 'granted') {
+      getRegistration();
+    }
+    return permission;
+  } catch (error) {
+    console.error('Error requesting notification permission:', error);
+    return Notification.permission;
+  }
+};
+
+// Register the service worker that handles notification clicks
+const getRegistration = (): Promise<ServiceWorkerRegistration | null> => {
+  if (!registrationPromise) {
+    registrationPromise = typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+      ? navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(error => {
+        console.error('Error registering notification service worker:', error);
+        return null;
+      })
+      : Promise.resolve(null);
+  }
+  return registrationPromise;
+};
+
+// Get the notification title for a phase
+const getPhaseTitle = (phase: TimerPhase): string => {
+  switch (phase) {
+    case 'focus':
+      return 'Time to focus';
+    case 'break':
+      return 'Time for a break';
+    case 'longBreak':
+      return 'Time for a long break';
+    default:
+      return 'Phase complete';
+  }
+};
+
+// Post a notification announcing the next phase
+export const showPhaseNotification = async ({
+  nextPhase,
+  phaseName,
+  duration,
+  completedSessions,
+  autoStarted
+}: {
+  nextPhase: TimerPhase;
+  phaseName?: string;  // Name of a phase from a custom sequence
+  duration: number | null;  // Duration in seconds, null for a phase that counts up
+  completedSessions: number;
+  autoStarted: boolean;
+}): Promise<void> => {
+  if (getNotificationPermission() !== 'granted') return;
+
+  const length = duration === null ? 'Counting up' : `${Math.max(1, Math.round(duration / 60))} min`;
+  const title = phaseName ? `Time for ${phaseName}` : getPhaseTitle(nextPhase);
+  const body = `${length} ${autoStarted ? 'started' : 'up next'} · ${completedSessions} session${completedSessions === 1 ? '' : 's'} completed`;
+  const options: NotificationOptions = { body, tag: NOTIFICATION_TAG, icon: '/favicon.ico' };
+  const actions: ServiceWorkerNotificationOptions['actions'] = [
+    ...(autoStarted ? [] : [{
+      action: 'start' as const,
+      title: phaseName ? `Start ${phaseName}` : nextPhase === 'focus' ? 'Start focus' : 'Start break'
+    }]),
+    { action: 'skip', title: 'Skip' }
+  ];
+
+  try {
+    const registration = await getRegistration();
+    if (registration) {
+      // Actions are only supported on service worker notifications
+      const workerOptions: ServiceWorkerNotificationOptions = { ...options, actions };
+      await registration.showNotification(title, workerOptions);
+      return;
+    }
+
+    const notification = new Notification(title, options);
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch (error) {
+    console.error('Error showing notification:', error);
+  }
+};
+
+// Listen for notification action buttons clicked through the service worker
+export const onNotificationAction = (callback: (action: NotificationAction) => void) => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+    return () => {};
+  }
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'notificationAction') {
+      callback(event.data.action);
+    }
+  };
+
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  navigator.serviceWorker.startMessages();
+  if (getNotificationPermission() === 'granted') {
+    getRegistration();
+  }
+
+  return () => {
+    navigator.serviceWorker.removeEventListener('message', handleMessage);
+  };
+};
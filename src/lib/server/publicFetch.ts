@@ -0,0 +1,176 @@
+import { lookup as dnsLookup, LookupAddress, LookupOptions } from 'dns';
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import { isIP } from 'net';
+
+// Fetches from user-supplied URLs. Only public hosts are reached: the address
+// a connection is made to is checked when it is resolved, so a host cannot
+// pass the check and then resolve to a private address for the connection.
+// Redirects are followed by hand so each hop is checked again, and bodies are
+// read up to a byte limit.
+
+const MAX_REDIRECTS = 5;
+
+export type PublicFetchResult =
+  | { ok: true; text: string }
+  | { ok: false; status: number; error: string };
+
+const failure = (status: number, error: string): PublicFetchResult => ({ ok: false, status, error });
+
+const parseIPv4 = (address: string): number[] => address.split('.').map(Number);
+
+// Loopback, private, link-local, shared, benchmarking, multicast and reserved ranges
+const isPrivateIPv4 = (address: string): boolean => {
+  const [a, b] = parseIPv4(address);
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 0)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19))
+    || a >= 224;
+};
+
+const isPrivateIPv6 = (address: string): boolean => {
+  const lower = address.toLowerCase();
+  // IPv4 addresses written as IPv6, e.g. ::ffff:127.0.0.1 or ::ffff:7f00:1
+  const mapped = lower.match(/^::(?:ffff:)?(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+  const mappedHex = lower.match(/^::(?:ffff:)?([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateIPv4([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+  return lower === '::'
+    || lower === '::1'
+    || /^f[cd]/.test(lower)
+    || /^fe[89ab]/.test(lower)
+    || lower.startsWith('ff')
+    || lower.startsWith('64:ff9b:');
+};
+
+const isPrivateAddress = (address: string): boolean => {
+  return isIP(address) === 4 ? isPrivateIPv4(address) : isPrivateIPv6(address);
+};
+
+// Error code of a connection refused because its host resolved to a private address
+const PRIVATE_ADDRESS = 'EPRIVATEADDRESS';
+
+// DNS lookup for outgoing connections that fails unless every address is public
+const publicLookup = (
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      callback(Object.assign(new Error(`${hostname} resolves to a private address`), { code: PRIVATE_ADDRESS }), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Why a URL may not be fetched, or null if it may. Host names are checked when
+// they are resolved; addresses written in the URL are not resolved, so they
+// are checked here.
+const checkPublicUrl = (url: URL): PublicFetchResult | null => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return failure(400, 'url must use http or https');
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isPrivateAddress(host)) {
+    return failure(400, 'The address is not allowed');
+  }
+  return null;
+};
+
+type HopResult =
+  | { type: 'redirect'; location: string }
+  | { type: 'response'; status: number; text: string | null };  // text is null once it passes the limit
+
+// Make one GET request, reading the body as text up to the limit
+const requestOnce = (url: URL, signal: AbortSignal, maxBytes: number): Promise<HopResult> => {
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, { lookup: publicLookup, signal }, (response: IncomingMessage) => {
+      const status = response.statusCode ?? 0;
+      const { location } = response.headers;
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        resolve({ type: 'redirect', location });
+        return;
+      }
+      if (status < 200 || status >= 300 || Number(response.headers['content-length'] ?? 0) > maxBytes) {
+        response.destroy();
+        resolve({ type: 'response', status, text: null });
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.byteLength;
+        if (size > maxBytes) {
+          response.destroy();
+          resolve({ type: 'response', status, text: null });
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => resolve({ type: 'response', status, text: Buffer.concat(chunks).toString('utf8') }));
+      response.on('error', reject);
+    });
+    request.on('error', reject);
+  });
+};
+
+// GET a public URL as text. Upstream errors are not passed on in detail.
+export const fetchPublicText = async (
+  url: URL,
+  { timeout, maxBytes }: { timeout: number; maxBytes: number }
+): Promise<PublicFetchResult> => {
+  const signal = AbortSignal.timeout(timeout);
+  let current = url;
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const rejection = checkPublicUrl(current);
+    if (rejection) return rejection;
+
+    let result: HopResult;
+    try {
+      result = await requestOnce(current, signal, maxBytes);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === PRIVATE_ADDRESS) {
+        return failure(400, 'The address is not allowed');
+      }
+      console.error('Error fetching public URL:', error);
+      return failure(502, 'The address could not be reached');
+    }
+
+    if (result.type === 'redirect') {
+      current = new URL(result.location, current);
+      continue;
+    }
+    if (result.status < 200 || result.status >= 300) {
+      return failure(502, 'The address could not be loaded');
+    }
+    if (result.text === null) {
+      return failure(413, 'The response is too large');
+    }
+    return { ok: true, text: result.text };
+  }
+
+  return failure(502, 'The address redirected too many times');
+};
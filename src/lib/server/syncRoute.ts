@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SyncCollection, SyncPushRequest } from '../../types/sync';
+import { isValidSyncRecord } from '../syncRecords';
+import { DEFAULT_PROFILE_ID } from '../storageAdapters';
+import { applyChanges, getChanges } from './syncStore';
+
+// Profile ids are 'default' or UUIDs
+const PROFILE_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+// Profile a request is for, from ?profile=<id>, or null if the id is not valid.
+// Requests without one are for the default profile, so calendar feeds
+// subscribed to before profiles were kept apart still work.
+export const getRequestProfile = (request: NextRequest): string | null => {
+  const profileId = request.nextUrl.searchParams.get('profile') ?? DEFAULT_PROFILE_ID;
+  return PROFILE_ID_PATTERN.test(profileId) ? profileId : null;
+};
+
+const invalidProfileResponse = () => {
+  return NextResponse.json({ error: 'profile must be a profile id' }, { status: 400 });
+};
+
+// Route handlers shared by the sync endpoints: GET pulls records changed
+// since ?since=<version>, POST pushes { records }. Both take ?profile=<id>.
+export const createSyncHandlers = (collection: SyncCollection) => ({
+  GET: async (request: NextRequest) => {
+    const profileId = getRequestProfile(request);
+    if (!profileId) return invalidProfileResponse();
+    const since = Number(request.nextUrl.searchParams.get('since') ?? 0);
+    if (!Number.isFinite(since) || since < 0) {
+      return NextResponse.json({ error: 'since must be a version number' }, { status: 400 });
+    }
+    return NextResponse.json(await getChanges(profileId, collection, since));
+  },
+
+  POST: async (request: NextRequest) => {
+    const profileId = getRequestProfile(request);
+    if (!profileId) return invalidProfileResponse();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body is not valid JSON' }, { status: 400 });
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+    }
+
+    const { records } = body as Partial<SyncPushRequest>;
+    if (!Array.isArray(records)) {
+      return NextResponse.json({ error: 'records must be a list' }, { status: 400 });
+    }
+    const invalidCount = records.filter(record => !isValidSyncRecord(collection, record)).length;
+    if (invalidCount > 0) {
+      return NextResponse.json({ error: `${invalidCount} invalid records` }, { status: 400 });
+    }
+
+    return NextResponse.json(await applyChanges(profileId, collection, records));
+  }
+});
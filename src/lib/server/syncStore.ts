@@ -0,0 +1,130 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { SyncCollection, SyncPullResponse, SyncPushResponse, SyncRecord } from '../../types/sync';
+import type { PlannedBlock } from '../../types/calendar';
+import { isNewerRecord } from '../syncRecords';
+import { DEFAULT_PROFILE_ID } from '../storageAdapters';
+
+// File-backed store for the sync API. All records live in one JSON file,
+// which is plenty for a single user's history across a few devices. Each
+// profile's data is kept apart so profiles never see each other's records.
+
+interface ProfileData {
+  collections: Record<SyncCollection, Record<string, SyncRecord>>;
+  plannedBlocks: PlannedBlock[];  // Latest plan of the device running the timer
+}
+
+interface StoreData {
+  version: number;  // Shared by all profiles; it only has to grow
+  profiles: Record<string, ProfileData>;
+}
+
+// Layout from before profiles were kept apart, read as the default profile's data
+interface LegacyStoreData {
+  collections?: Partial<ProfileData['collections']>;
+  plannedBlocks?: PlannedBlock[];
+}
+
+const DATA_DIR = process.env.POMODORO_DATA_DIR ?? path.join(process.cwd(), 'data');
+const DATA_FILE = path.join(DATA_DIR, 'sync.json');
+
+const createEmptyProfile = (): ProfileData => ({
+  collections: { sessions: {}, config: {}, preferences: {} },
+  plannedBlocks: []
+});
+
+const readStore = async (): Promise<StoreData> => {
+  try {
+    const data = JSON.parse(await fs.readFile(DATA_FILE, 'utf8')) as Partial<StoreData> & LegacyStoreData;
+    const profiles = data.profiles ?? {};
+    if (data.collections && !profiles[DEFAULT_PROFILE_ID]) {
+      profiles[DEFAULT_PROFILE_ID] = {
+        collections: { ...createEmptyProfile().collections, ...data.collections },
+        plannedBlocks: data.plannedBlocks ?? []
+      };
+    }
+    return { version: data.version ?? 0, profiles };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { version: 0, profiles: {} };
+    }
+    throw error;
+  }
+};
+
+// A profile's data, added to the store if it has none yet
+const getProfileData = (store: StoreData, profileId: string): ProfileData => {
+  if (!store.profiles[profileId]) {
+    store.profiles[profileId] = createEmptyProfile();
+  }
+  return store.profiles[profileId];
+};
+
+// Write through a temporary file so a crash never leaves a partial store
+const writeStore = async (data: StoreData): Promise<void> => {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const tempFile = `${DATA_FILE}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(data));
+  await fs.rename(tempFile, DATA_FILE);
+};
+
+// Writes run one at a time so concurrent requests cannot lose updates
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const runExclusive = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch(() => undefined);
+  return result;
+};
+
+// Records changed since the given version, oldest first
+export const getChanges = async (
+  profileId: string,
+  collection: SyncCollection,
+  since: number
+): Promise<SyncPullResponse> => {
+  const store = await readStore();
+  const records = Object.values(getProfileData(store, profileId).collections[collection])
+    .filter(record => record.version > since)
+    .sort((a, b) => a.version - b.version);
+  return { records, version: store.version };
+};
+
+// Store records that are newer than the server's copy and stamp them with a version
+export const applyChanges = (
+  profileId: string,
+  collection: SyncCollection,
+  records: SyncRecord[]
+): Promise<SyncPushResponse> => {
+  return runExclusive(async () => {
+    const store = await readStore();
+    const stored = getProfileData(store, profileId).collections[collection];
+
+    const result = records.map(record => {
+      const current = Object.hasOwn(stored, record.id) ? stored[record.id] : undefined;
+      if (current && !isNewerRecord(record, current)) {
+        return current;
+      }
+      store.version += 1;
+      const accepted = { ...record, version: store.version };
+      stored[record.id] = accepted;
+      return accepted;
+    });
+
+    await writeStore(store);
+    return { records: result, version: store.version };
+  });
+};
+
+export const getPlannedBlocks = async (profileId: string): Promise<PlannedBlock[]> => {
+  return getProfileData(await readStore(), profileId).plannedBlocks;
+};
+
+// Replace the plan; it is not versioned since only the latest one matters
+export const savePlannedBlocks = (profileId: string, blocks: PlannedBlock[]): Promise<void> => {
+  return runExclusive(async () => {
+    const store = await readStore();
+    getProfileData(store, profileId).plannedBlocks = blocks;
+    await writeStore(store);
+  });
+};
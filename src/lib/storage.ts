@@ -1,4 +1,48 @@
-import { TimerConfig, UserPreferences } from '../types/timer';
+import {
+  FocusGoals,
+  Interruption,
+  SessionOutcome,
+  Subscription,
+  Task,
+  TimerConfig,
+  TimerDurations,
+  TimerMode,
+  TimerPreset,
+  TimerState,
+  UserPreferences
+} from '../types/timer';
+import type { SyncState } from '../types/sync';
+import type { StoredCalendar } from '../types/calendar';
+import { calculateGoalProgress, calculateStreaks, getDayKey, GoalsProgress } from './analytics';
+import { CURRENT_SCHEMA_VERSION, migrate } from './migrations';
+import { ImportMode, SettingChange, diffSettings, mergePresets, mergeSessions, mergeTasks } from './merge';
+import {
+  DEFAULT_PROFILE_ID,
+  SessionQuery,
+  StorageAdapter,
+  createIndexedDBAdapter,
+  createLocalStorageAdapter,
+  createMemoryAdapter
+} from './storageAdapters';
+import {
+  Schema,
+  goalsSchema,
+  preferencesSchema,
+  sessionSchema,
+  statisticsSchema,
+  taskSchema,
+  timerConfigSchema,
+  timerStateSchema,
+  presetSchema,
+  backupSchema,
+  syncStateSchema,
+  subscriptionSchema,
+  calendarSchema,
+  profileSchema,
+  validateRecord,
+  validateRecords,
+  validateSettings
+} from './validation';
 
 // Check if we're on the client side
 const isClient = typeof window !== 'undefined';
@@ -8,25 +52,82 @@ const STORAGE_KEYS = {
   PREFERENCES: 'pomodoro_preferences',
   SESSIONS: 'pomodoro_sessions',
   STATISTICS: 'pomodoro_statistics',
-  TIMER_CONFIG: 'pomodoro_config'
+  TIMER_CONFIG: 'pomodoro_config',
+  GOALS: 'pomodoro_goals',
+  ACTIVE_TIMER: 'pomodoro_active_timer',
+  TASKS: 'pomodoro_tasks',
+  ACTIVE_TASK: 'pomodoro_active_task',
+  QUARANTINE: 'pomodoro_quarantine',
+  BACKUPS: 'pomodoro_backups',
+  SYNC: 'pomodoro_sync',
+  SUBSCRIPTION: 'pomodoro_subscription',
+  CALENDAR: 'pomodoro_calendar',
+  PRESETS: 'pomodoro_presets'
 } as const;
 
+export type StorageKey = typeof STORAGE_KEYS[keyof typeof STORAGE_KEYS];
+
+// Keys shared by all profiles
+const PROFILES_KEY = 'pomodoro_profiles';
+const ACTIVE_PROFILE_KEY = 'pomodoro_active_profile';
+
+// Values stored once for all profiles. The subscription belongs to the
+// account, so a new profile must not start a new trial.
+const SHARED_KEYS = new Set<StorageKey>([STORAGE_KEYS.SUBSCRIPTION]);
+
+// Stored record that failed validation, kept aside so it can be inspected
+export interface QuarantinedRecord {
+  key: StorageKey;
+  record: unknown;
+  reason: string;
+  quarantinedAt: string;
+}
+
+// Snapshot of all data kept in storage so an import can be rolled back
+export interface BackupSnapshot {
+  id: string;
+  createdAt: string;
+  reason: 'manual' | 'scheduled' | 'beforeImport';
+  data: string; // exportData output
+}
+
+// Separate set of sessions, settings and tasks for one person using the browser
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
 // Session data interface
-interface SessionData {
+export interface SessionData {
   id: string;
   startTime: string;
   endTime: string;
   phase: 'focus' | 'break' | 'longBreak';
-  completed: boolean;
-  duration: number; // in seconds
+  outcome: SessionOutcome;
+  completed: boolean; // outcome === 'completed'
+  duration: number; // time actually spent, excluding pauses, in seconds
+  plannedDuration: number; // configured duration in seconds
+  pausedTime: number; // in seconds
+  pauseCount: number;
+  taskId?: string | null; // task worked on during a focus session
+  presetId?: string | null; // preset the timer was running, null for custom durations
+  phaseName?: string; // name of a phase from a custom sequence
+  mode?: TimerMode; // set for Flowtime sessions, missing for pomodoros
+  overtime?: number; // seconds worked past the planned end, not included in duration
+  extension?: number; // seconds added to the planned duration during the phase
+  endedEarly?: boolean; // ended before its planned end and counted as completed
+  interruptions?: Interruption[]; // interruptions logged during a focus session
 }
 
 // Statistics interface
-interface Statistics {
+export interface Statistics {
   totalFocusTime: number; // in seconds
   totalBreakTime: number; // in seconds
   completedSessions: number;
-  dailyStreak: number;
+  completionRate: number; // completed share of started focus sessions, derived from session history
+  dailyStreak: number; // derived from session history
+  longestStreak: number; // derived from session history
   lastSessionDate: string | null;
 }
 
@@ -36,7 +137,17 @@ const DEFAULT_PREFERENCES: UserPreferences = {
   notifications: true,
   sound: true,
   autoStartBreaks: true,
-  autoStartPomodoros: false
+  autoStartPomodoros: false,
+  autoStartCountdown: 10,
+  maxAutoStartPomodoros: 0,
+  overtime: false,
+  maxOvertime: 10,
+  dayStartHour: 0,
+  streakMinimumPomodoros: 1,
+  autoBackup: false,
+  autoBackupIntervalHours: 24,
+  autoBackupKeep: 5,
+  syncEnabled: false
 };
 
 // Default timer configuration
@@ -47,41 +158,252 @@ const DEFAULT_CONFIG: TimerConfig = {
   sessionsUntilLongBreak: 4
 };
 
+const DEFAULT_GOALS: FocusGoals = {
+  dailyPomodoros: 8,
+  weeklyFocusHours: 0,
+  streakFromDailyGoal: false
+};
+
+const DEFAULT_SUBSCRIPTION: Subscription = {
+  tier: 'free',
+  expiresAt: null,
+  trial: null,
+  hasUsedTrial: false
+};
+
 const DEFAULT_STATISTICS: Statistics = {
   totalFocusTime: 0,
   totalBreakTime: 0,
   completedSessions: 0,
+  completionRate: 0,
   dailyStreak: 0,
+  longestStreak: 0,
   lastSessionDate: null
 };
 
-// Safe localStorage access
-const safeLocalStorage = {
-  getItem: (key: string): string | null => {
-    if (!isClient) return null;
-    try {
-      return localStorage.getItem(key);
-    } catch (error) {
-      console.error('Error accessing localStorage:', error);
-      return null;
-    }
-  },
-  setItem: (key: string, value: string): void => {
-    if (!isClient) return;
-    try {
-      localStorage.setItem(key, value);
-    } catch (error) {
-      console.error('Error writing to localStorage:', error);
-    }
+// Backend the data is persisted to; replaced by loadStorage on the client
+let adapter: StorageAdapter = createMemoryAdapter();
+
+const createDefaultProfile = (): Profile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: 'Default',
+  createdAt: new Date().toISOString()
+});
+
+let profiles: Profile[] = [createDefaultProfile()];
+let activeProfileId = DEFAULT_PROFILE_ID;
+
+// Key a value is stored under for a profile. The default profile keeps the
+// original keys so data from before profiles existed stays where it is.
+const profileKey = (key: StorageKey, profileId: string = activeProfileId): string => {
+  return profileId === DEFAULT_PROFILE_ID || SHARED_KEYS.has(key) ? key : `${key}:${profileId}`;
+};
+
+// Other tabs are told which key changed so they can reload it from the adapter,
+// and when profiles change so they can follow a switch
+const STORAGE_CHANNEL = 'pomodoro_storage';
+let storageChannel: BroadcastChannel | null = null;
+
+type StorageMessage =
+  | { type: 'key'; profileId: string; key: StorageKey }
+  | { type: 'profiles' };
+
+// Listeners for writes made through this module, in this tab or another one
+const changeListeners = new Set<(key: StorageKey, fromOtherTab: boolean) => void>();
+
+// Be told whenever a key is written, including after another tab wrote it
+// and it was reloaded here (fromOtherTab); returns an unsubscribe function
+export const onStorageChange = (
+  listener: (key: StorageKey, fromOtherTab: boolean) => void
+): (() => void) => {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+};
+
+// Write to the adapter in the background, then tell the other tabs
+const persist = (key: StorageKey, write: () => Promise<void>): void => {
+  const message: StorageMessage = { type: 'key', profileId: activeProfileId, key };
+  changeListeners.forEach(listener => listener(key, false));
+  write()
+    .then(() => storageChannel?.postMessage(message))
+    .catch(error => console.error('Error writing to storage:', error));
+};
+
+// In-memory copy of every value stored for the active profile. Reads are
+// synchronous against it and writes go through to the adapter.
+const cache = new Map<string, string>();
+const cachedStorage = {
+  getItem: (key: StorageKey): string | null => cache.get(key) ?? null,
+  setItem: (key: StorageKey, value: string): void => {
+    const storedKey = profileKey(key);
+    cache.set(key, value);
+    persist(key, () => adapter.setItem(storedKey, value));
   },
-  removeItem: (key: string): void => {
-    if (!isClient) return;
-    try {
-      localStorage.removeItem(key);
-    } catch (error) {
-      console.error('Error removing from localStorage:', error);
-    }
+  removeItem: (key: StorageKey): void => {
+    const storedKey = profileKey(key);
+    cache.delete(key);
+    persist(key, () => adapter.removeItem(storedKey));
+  }
+};
+
+// Sessions are cached separately since the adapter stores them as records
+let sessionCache: SessionData[] = [];
+
+const persistSessions = (write: () => Promise<void>): void => {
+  persist(STORAGE_KEYS.SESSIONS, write);
+};
+
+// Versioned wrapper around every stored value
+interface Envelope {
+  version: number;
+  data: unknown;
+}
+
+// Values written before envelopes existed are version 1. Some were stored as
+// raw strings rather than JSON, so unparseable values are kept as-is.
+const parseEnvelope = (raw: string): Envelope => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { version: 1, data: raw };
+  }
+  if (
+    typeof parsed === 'object' && parsed !== null &&
+    typeof (parsed as Envelope).version === 'number' && 'data' in parsed
+  ) {
+    return parsed as Envelope;
+  }
+  return { version: 1, data: parsed };
+};
+
+const writeKey = (key: StorageKey, data: unknown): void => {
+  const envelope: Envelope = { version: CURRENT_SCHEMA_VERSION, data };
+  cachedStorage.setItem(key, JSON.stringify(envelope));
+};
+
+// Read a key's data, migrating it to the current schema version first
+const readKey = (key: StorageKey): unknown => {
+  const raw = cachedStorage.getItem(key);
+  if (raw === null) return undefined;
+
+  const { version, data } = parseEnvelope(raw);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    // Written by a newer version of the app; set it aside rather than overwrite it
+    quarantine(key, [{ record: data, reason: `Unknown schema version ${version}` }]);
+    cachedStorage.removeItem(key);
+    return undefined;
+  }
+  if (version < CURRENT_SCHEMA_VERSION) {
+    const migrated = migrate(key, data, version);
+    writeKey(key, migrated);
+    return migrated;
   }
+  return data;
+};
+
+// Get records that failed validation, oldest first
+export const getQuarantine = (): QuarantinedRecord[] => {
+  const raw = cachedStorage.getItem(STORAGE_KEYS.QUARANTINE);
+  if (!raw) return [];
+  const { data } = parseEnvelope(raw);
+  return Array.isArray(data) ? data : [];
+};
+
+// Discard quarantined records once the user has seen them
+export const clearQuarantine = (): void => {
+  cachedStorage.removeItem(STORAGE_KEYS.QUARANTINE);
+};
+
+const quarantine = (key: StorageKey, entries: { record: unknown; reason: string }[]): void => {
+  if (entries.length === 0) return;
+  console.warn(`Quarantined ${entries.length} invalid record(s) from ${key}`);
+  const quarantinedAt = new Date().toISOString();
+  writeKey(STORAGE_KEYS.QUARANTINE, [
+    ...getQuarantine(),
+    ...entries.map(entry => ({ key, ...entry, quarantinedAt }))
+  ]);
+};
+
+// Replace the session store, then mark the sessions key as holding no
+// sessions itself. The marker is written last so an interrupted move is retried.
+const resetSessionStore = (records: SessionData[]): void => {
+  const profileId = activeProfileId;
+  const markerKey = profileKey(STORAGE_KEYS.SESSIONS);
+  const marker = JSON.stringify({ version: CURRENT_SCHEMA_VERSION, data: null });
+  cache.set(STORAGE_KEYS.SESSIONS, marker);
+  persistSessions(async () => {
+    await adapter.replaceSessions(profileId, records);
+    await adapter.setItem(markerKey, marker);
+  });
+};
+
+// Sessions live in the adapter's session store and the sessions key only
+// records their schema version. Data from before the session store existed
+// keeps the sessions themselves under that key and is moved across here.
+const loadSessions = (stored: unknown[]): SessionData[] => {
+  const raw = cachedStorage.getItem(STORAGE_KEYS.SESSIONS);
+  const { version, data } = raw ? parseEnvelope(raw) : { version: CURRENT_SCHEMA_VERSION, data: null };
+  const isLegacyList = Array.isArray(data);
+  const records = isLegacyList ? data : stored;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    // Written by a newer version of the app; set it aside rather than overwrite it
+    quarantine(STORAGE_KEYS.SESSIONS, [{ record: records, reason: `Unknown schema version ${version}` }]);
+    resetSessionStore([]);
+    return [];
+  }
+
+  const migrated = migrate(STORAGE_KEYS.SESSIONS, records, version);
+  const result = validateRecords(migrated, sessionSchema) ?? {
+    valid: [],
+    invalid: [{ record: migrated, reason: 'Expected a list of records' }]
+  };
+  quarantine(STORAGE_KEYS.SESSIONS, result.invalid);
+  if (isLegacyList || version < CURRENT_SCHEMA_VERSION || result.invalid.length > 0) {
+    resetSessionStore(result.valid);
+  }
+  return result.valid.sort((a, b) => a.startTime.localeCompare(b.startTime));
+};
+
+// Read a list of records, setting invalid ones aside
+const readRecords = <T>(key: StorageKey, schema: Schema<T>): T[] => {
+  const data = readKey(key);
+  if (data === undefined) return [];
+
+  const result = validateRecords(data, schema);
+  if (!result) {
+    quarantine(key, [{ record: data, reason: 'Expected a list of records' }]);
+    writeKey(key, []);
+    return [];
+  }
+  if (result.invalid.length > 0) {
+    quarantine(key, result.invalid);
+    writeKey(key, result.valid);
+  }
+  return result.valid;
+};
+
+// Read a settings object; invalid fields are set aside and fall back to defaults
+const readSettings = <T>(key: StorageKey, schema: Schema<T>, defaults: T): T => {
+  const data = readKey(key);
+  if (data === undefined) return defaults;
+
+  const result = validateSettings(data, schema);
+  if (!result) {
+    quarantine(key, [{ record: data, reason: 'Expected an object' }]);
+    writeKey(key, defaults);
+    return defaults;
+  }
+  const settings = { ...defaults, ...result.value };
+  const invalidFields = Object.keys(result.invalidFields);
+  if (invalidFields.length > 0) {
+    quarantine(key, [{ record: result.invalidFields, reason: `Invalid fields: ${invalidFields.join(', ')}` }]);
+    writeKey(key, settings);
+  }
+  return settings;
 };
 
 // Initialize storage with default values if not present
@@ -89,54 +411,207 @@ const initializeStorage = () => {
   if (!isClient) return;
 
   // Only set defaults if the keys don't exist
-  if (!safeLocalStorage.getItem(STORAGE_KEYS.PREFERENCES)) {
-    safeLocalStorage.setItem(STORAGE_KEYS.PREFERENCES, JSON.stringify(DEFAULT_PREFERENCES));
+  if (!cachedStorage.getItem(STORAGE_KEYS.PREFERENCES)) {
+    writeKey(STORAGE_KEYS.PREFERENCES, DEFAULT_PREFERENCES);
+  }
+
+  if (!cachedStorage.getItem(STORAGE_KEYS.TIMER_CONFIG)) {
+    writeKey(STORAGE_KEYS.TIMER_CONFIG, DEFAULT_CONFIG);
+  }
+
+  if (!cachedStorage.getItem(STORAGE_KEYS.GOALS)) {
+    writeKey(STORAGE_KEYS.GOALS, DEFAULT_GOALS);
+  }
+
+  if (!cachedStorage.getItem(STORAGE_KEYS.SESSIONS)) {
+    writeKey(STORAGE_KEYS.SESSIONS, null);
   }
 
-  if (!safeLocalStorage.getItem(STORAGE_KEYS.TIMER_CONFIG)) {
-    safeLocalStorage.setItem(STORAGE_KEYS.TIMER_CONFIG, JSON.stringify(DEFAULT_CONFIG));
+  if (!cachedStorage.getItem(STORAGE_KEYS.STATISTICS)) {
+    writeKey(STORAGE_KEYS.STATISTICS, DEFAULT_STATISTICS);
+  }
+
+  if (!cachedStorage.getItem(STORAGE_KEYS.TASKS)) {
+    writeKey(STORAGE_KEYS.TASKS, []);
+  }
+};
+
+// Copy data left in localStorage by earlier versions into a new database
+const migrateFromLocalStorage = async (target: StorageAdapter): Promise<void> => {
+  // Only an empty database is filled, so a stale copy never overwrites newer data
+  if (await target.getItem(STORAGE_KEYS.PREFERENCES) !== null) return;
+
+  // Earlier versions had no profiles, so everything belongs to the default one
+  const source = createLocalStorageAdapter();
+  const keys = Object.values(STORAGE_KEYS);
+  const values = await Promise.all(keys.map(key => source.getItem(key)));
+  const sessions = await source.getSessions(DEFAULT_PROFILE_ID);
+  if (values.every(value => value === null) && sessions.length === 0) return;
+
+  // Preferences are written last so an interrupted copy is retried
+  await target.putSessions(DEFAULT_PROFILE_ID, sessions as SessionData[]);
+  const order = keys
+    .map((key, index) => ({ key, value: values[index] }))
+    .sort((a, b) => Number(a.key === STORAGE_KEYS.PREFERENCES) - Number(b.key === STORAGE_KEYS.PREFERENCES));
+  for (const { key, value } of order) {
+    if (value !== null) await target.setItem(key, value);
   }
 
-  if (!safeLocalStorage.getItem(STORAGE_KEYS.SESSIONS)) {
-    safeLocalStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify([]));
+  await source.replaceSessions(DEFAULT_PROFILE_ID, []);
+  await Promise.all(keys.map(key => source.removeItem(key)));
+};
+
+const openAdapter = async (): Promise<StorageAdapter> => {
+  try {
+    const indexedDBAdapter = await createIndexedDBAdapter();
+    await migrateFromLocalStorage(indexedDBAdapter);
+    return indexedDBAdapter;
+  } catch (error) {
+    console.error('IndexedDB unavailable, falling back to localStorage:', error);
+    return createLocalStorageAdapter();
   }
+};
+
+// Read the profile list and the id of the profile to open
+const loadProfiles = async (): Promise<string> => {
+  const [rawProfiles, activeId] = await Promise.all([
+    adapter.getItem(PROFILES_KEY),
+    adapter.getItem(ACTIVE_PROFILE_KEY)
+  ]);
 
-  if (!safeLocalStorage.getItem(STORAGE_KEYS.STATISTICS)) {
-    safeLocalStorage.setItem(STORAGE_KEYS.STATISTICS, JSON.stringify(DEFAULT_STATISTICS));
+  let stored: unknown = null;
+  try {
+    stored = rawProfiles ? JSON.parse(rawProfiles) : null;
+  } catch (error) {
+    console.error('Error reading profiles:', error);
   }
+  const result = validateRecords(stored, profileSchema);
+  if (result && result.invalid.length > 0) {
+    console.warn(`Ignored ${result.invalid.length} invalid profile(s)`);
+  }
+
+  profiles = result && result.valid.length > 0 ? result.valid : [createDefaultProfile()];
+  return profiles.some(profile => profile.id === activeId) ? activeId! : profiles[0].id;
+};
+
+// Load a profile's data and make it the active profile. Everything is read
+// before the cache is swapped so reads never see a mix of two profiles.
+const loadProfile = async (profileId: string): Promise<void> => {
+  const keys = Object.values(STORAGE_KEYS);
+  const [values, storedSessions] = await Promise.all([
+    Promise.all(keys.map(key => adapter.getItem(profileKey(key, profileId)))),
+    adapter.getSessions(profileId)
+  ]);
+
+  activeProfileId = profileId;
+  cache.clear();
+  keys.forEach((key, index) => {
+    const value = values[index];
+    if (value !== null) cache.set(key, value);
+  });
+  sessionCache = loadSessions(storedSessions);
+  initializeStorage();
+};
+
+// Reload one key after another tab changed it, then tell this tab's listeners
+const refreshKey = async (key: StorageKey): Promise<void> => {
+  const profileId = activeProfileId;
+  if (key === STORAGE_KEYS.SESSIONS) {
+    const [raw, storedSessions] = await Promise.all([
+      adapter.getItem(profileKey(key, profileId)),
+      adapter.getSessions(profileId)
+    ]);
+    if (profileId !== activeProfileId) return;
+    if (raw !== null) cache.set(key, raw);
+    sessionCache = loadSessions(storedSessions);
+  } else {
+    const value = await adapter.getItem(profileKey(key, profileId));
+    if (profileId !== activeProfileId) return;
+    if (value === null) {
+      cache.delete(key);
+    } else {
+      cache.set(key, value);
+    }
+  }
+  changeListeners.forEach(listener => listener(key, true));
+};
+
+// Follow a change made in another tab
+const handleStorageMessage = async (message: StorageMessage): Promise<void> => {
+  if (message.type === 'profiles') {
+    const activeId = await loadProfiles();
+    if (activeId !== activeProfileId) {
+      await loadProfile(activeId);
+    }
+    notifyProfileChange();
+  } else if (message.profileId === activeProfileId || SHARED_KEYS.has(message.key)) {
+    await refreshKey(message.key);
+  }
+};
+
+let loading: Promise<void> | null = null;
+
+// Load stored data into memory. Storage functions read from the cache
+// synchronously, so this has to finish before they are used; pass an adapter
+// to use a specific backend, such as the in-memory one in tests.
+export const loadStorage = (storageAdapter?: StorageAdapter): Promise<void> => {
+  if (loading && !storageAdapter) return loading;
+
+  loading = (async () => {
+    if (storageAdapter) {
+      adapter = storageAdapter;
+    } else if (isClient) {
+      adapter = await openAdapter();
+    }
+
+    await loadProfile(await loadProfiles());
+
+    if (isClient && !storageChannel && typeof BroadcastChannel !== 'undefined') {
+      storageChannel = new BroadcastChannel(STORAGE_CHANNEL);
+      storageChannel.onmessage = (event: MessageEvent<StorageMessage>) => {
+        handleStorageMessage(event.data).catch(error => console.error('Error reloading storage:', error));
+      };
+    }
+  })();
+  return loading;
 };
 
 // Get user preferences
 export const getPreferences = (): UserPreferences => {
   initializeStorage();
-  const preferences = safeLocalStorage.getItem(STORAGE_KEYS.PREFERENCES);
-  if (!preferences) {
-    return DEFAULT_PREFERENCES;
-  }
-  const parsedPreferences = JSON.parse(preferences);
-  return { ...DEFAULT_PREFERENCES, ...parsedPreferences };
+  return readSettings(STORAGE_KEYS.PREFERENCES, preferencesSchema, DEFAULT_PREFERENCES);
 };
 
 // Save user preferences
 export const savePreferences = (preferences: UserPreferences): void => {
-  const validatedPreferences = { ...DEFAULT_PREFERENCES, ...preferences };
-  safeLocalStorage.setItem(STORAGE_KEYS.PREFERENCES, JSON.stringify(validatedPreferences));
+  const validatedPreferences = {
+    ...DEFAULT_PREFERENCES,
+    ...preferences,
+    autoStartCountdown: Math.max(0, Math.round(preferences.autoStartCountdown ?? DEFAULT_PREFERENCES.autoStartCountdown)),
+    maxAutoStartPomodoros: Math.max(0, Math.round(preferences.maxAutoStartPomodoros ?? DEFAULT_PREFERENCES.maxAutoStartPomodoros)),
+    maxOvertime: Math.max(0, Math.round(preferences.maxOvertime ?? DEFAULT_PREFERENCES.maxOvertime)),
+    dayStartHour: Math.min(23, Math.max(0, Math.round(preferences.dayStartHour ?? DEFAULT_PREFERENCES.dayStartHour))),
+    streakMinimumPomodoros: Math.max(1, Math.round(preferences.streakMinimumPomodoros ?? DEFAULT_PREFERENCES.streakMinimumPomodoros)),
+    autoBackupIntervalHours: Math.max(1, Math.round(preferences.autoBackupIntervalHours ?? DEFAULT_PREFERENCES.autoBackupIntervalHours)),
+    autoBackupKeep: Math.max(1, Math.round(preferences.autoBackupKeep ?? DEFAULT_PREFERENCES.autoBackupKeep))
+  };
+  writeKey(STORAGE_KEYS.PREFERENCES, validatedPreferences);
 };
 
 // Get timer configuration
 export const getTimerConfig = (): TimerConfig => {
   initializeStorage();
-  const config = safeLocalStorage.getItem(STORAGE_KEYS.TIMER_CONFIG);
-  if (!config) {
-    return DEFAULT_CONFIG;
-  }
-  const parsedConfig = JSON.parse(config);
-  // Ensure all required fields are present with valid values
+  const config = readSettings(STORAGE_KEYS.TIMER_CONFIG, timerConfigSchema, DEFAULT_CONFIG);
+  // Ensure all durations are usable
   return {
-    focusDuration: Math.max(0.1, parsedConfig.focusDuration ?? DEFAULT_CONFIG.focusDuration),
-    breakDuration: Math.max(0.1, parsedConfig.breakDuration ?? DEFAULT_CONFIG.breakDuration),
-    longBreakDuration: Math.max(0.1, parsedConfig.longBreakDuration ?? DEFAULT_CONFIG.longBreakDuration),
-    sessionsUntilLongBreak: Math.max(1, parsedConfig.sessionsUntilLongBreak ?? DEFAULT_CONFIG.sessionsUntilLongBreak)
+    focusDuration: Math.max(0.1, config.focusDuration),
+    breakDuration: Math.max(0.1, config.breakDuration),
+    longBreakDuration: Math.max(0.1, config.longBreakDuration),
+    sessionsUntilLongBreak: Math.max(1, config.sessionsUntilLongBreak),
+    ...(config.presetId !== undefined ? { presetId: config.presetId } : {}),
+    ...(config.sequence !== undefined ? { sequence: config.sequence } : {}),
+    ...(config.mode !== undefined ? { mode: config.mode } : {}),
+    ...(config.flowtime !== undefined ? { flowtime: config.flowtime } : {})
   };
 };
 
@@ -147,48 +622,91 @@ export const saveTimerConfig = (config: TimerConfig): void => {
     focusDuration: Math.max(0.1, config.focusDuration),
     breakDuration: Math.max(0.1, config.breakDuration),
     longBreakDuration: Math.max(0.1, config.longBreakDuration),
-    sessionsUntilLongBreak: Math.max(1, config.sessionsUntilLongBreak)
+    sessionsUntilLongBreak: Math.max(1, config.sessionsUntilLongBreak),
+    ...(config.presetId !== undefined ? { presetId: config.presetId } : {}),
+    ...(config.sequence !== undefined ? { sequence: config.sequence } : {}),
+    ...(config.mode !== undefined ? { mode: config.mode } : {}),
+    ...(config.flowtime !== undefined ? { flowtime: config.flowtime } : {})
+  };
+  writeKey(STORAGE_KEYS.TIMER_CONFIG, validatedConfig);
+};
+
+// Get focus goals
+export const getGoals = (): FocusGoals => {
+  initializeStorage();
+  return readSettings(STORAGE_KEYS.GOALS, goalsSchema, DEFAULT_GOALS);
+};
+
+// Save focus goals
+export const saveGoals = (goals: FocusGoals): void => {
+  const validatedGoals = {
+    dailyPomodoros: Math.max(0, Math.round(goals.dailyPomodoros)),
+    weeklyFocusHours: Math.max(0, goals.weeklyFocusHours),
+    streakFromDailyGoal: goals.streakFromDailyGoal
   };
-  safeLocalStorage.setItem(STORAGE_KEYS.TIMER_CONFIG, JSON.stringify(validatedConfig));
+  writeKey(STORAGE_KEYS.GOALS, validatedGoals);
+};
+
+// Get progress towards the daily and weekly goals
+export const getGoalProgress = (): GoalsProgress => {
+  return calculateGoalProgress(getSessions(), getGoals(), {
+    dayStartHour: getPreferences().dayStartHour,
+    now: new Date()
+  });
 };
 
 // Save completed session
 export const saveSession = (session: Omit<SessionData, 'id'>): void => {
-  const sessions = getSessions();
   const newSession: SessionData = {
     ...session,
     id: crypto.randomUUID()
   };
-  sessions.push(newSession);
-  safeLocalStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessions));
+  sessionCache = [...sessionCache, newSession];
+  persistSessions(() => adapter.putSessions(activeProfileId, [newSession]));
   updateStatistics(session);
 };
 
 // Get all sessions
 export const getSessions = (): SessionData[] => {
   initializeStorage();
-  const sessions = safeLocalStorage.getItem(STORAGE_KEYS.SESSIONS);
-  if (!sessions) {
-    return [];
-  }
-  return JSON.parse(sessions);
+  return [...sessionCache];
+};
+
+// Query stored sessions by start time and phase using the adapter's indexes
+export const querySessions = async (query: SessionQuery): Promise<SessionData[]> => {
+  const result = validateRecords(await adapter.getSessions(activeProfileId, query), sessionSchema);
+  return result?.valid ?? [];
 };
 
 // Get statistics
 export const getStatistics = (): Statistics => {
   initializeStorage();
-  const stats = safeLocalStorage.getItem(STORAGE_KEYS.STATISTICS);
-  if (!stats) {
-    return DEFAULT_STATISTICS;
-  }
-  const parsedStats = JSON.parse(stats);
-  return { ...DEFAULT_STATISTICS, ...parsedStats };
+  const stats = readSettings(STORAGE_KEYS.STATISTICS, statisticsSchema, DEFAULT_STATISTICS);
+  const preferences = getPreferences();
+  const goals = getGoals();
+  const sessions = getSessions();
+  const focusSessions = sessions.filter(session => session.phase === 'focus');
+  // Streaks are always recomputed from history so imports and deletions stay correct
+  const streaks = calculateStreaks(sessions, {
+    dayStartHour: preferences.dayStartHour,
+    minimumSessions: goals.streakFromDailyGoal && goals.dailyPomodoros > 0
+      ? goals.dailyPomodoros
+      : preferences.streakMinimumPomodoros,
+    now: new Date()
+  });
+  return {
+    ...stats,
+    completionRate: focusSessions.length > 0
+      ? focusSessions.filter(session => session.completed).length / focusSessions.length
+      : 0,
+    dailyStreak: streaks.current,
+    longestStreak: streaks.longest
+  };
 };
 
 // Update statistics with new session
 const updateStatistics = (session: Omit<SessionData, 'id'>): void => {
   const stats = getStatistics();
-  const today = new Date().toISOString().split('T')[0];
 
   // Update total times
   if (session.phase === 'focus') {
@@ -202,59 +720,431 @@ const updateStatistics = (session: Omit<SessionData, 'id'>): void => {
     stats.completedSessions += 1;
   }
 
-  // Update streak
-  if (stats.lastSessionDate) {
-    const lastDate = new Date(stats.lastSessionDate);
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-    
-    if (today === stats.lastSessionDate) {
-      // Same day, no streak change
-    } else if (lastDate.toISOString().split('T')[0] === yesterday.toISOString().split('T')[0]) {
-      // Consecutive day, increment streak
-      stats.dailyStreak += 1;
-    } else {
-      // Streak broken
-      stats.dailyStreak = 1;
-    }
+  stats.lastSessionDate = getDayKey(new Date(session.startTime), getPreferences().dayStartHour);
+  writeKey(STORAGE_KEYS.STATISTICS, stats);
+};
+
+// Get the persisted state of the running timer
+export const getActiveTimer = (): TimerState | null => {
+  const timer = readKey(STORAGE_KEYS.ACTIVE_TIMER);
+  if (timer === undefined) {
+    return null;
+  }
+  const result = validateRecord(timer, timerStateSchema);
+  if (!result.valid) {
+    // A broken timer is dropped so the app starts fresh instead of crashing
+    quarantine(STORAGE_KEYS.ACTIVE_TIMER, [{ record: timer, reason: result.reason }]);
+    cachedStorage.removeItem(STORAGE_KEYS.ACTIVE_TIMER);
+    return null;
+  }
+  return result.value;
+};
+
+// Persist the running timer so it survives a reload or browser restart
+export const saveActiveTimer = (state: TimerState): void => {
+  writeKey(STORAGE_KEYS.ACTIVE_TIMER, state);
+};
+
+// Presets that come with the app; the first matches the default durations
+export const BUILT_IN_PRESETS: TimerPreset[] = [
+  { id: 'classic', name: 'Classic', focusDuration: 25, breakDuration: 5, longBreakDuration: 15, sessionsUntilLongBreak: 4 },
+  { id: '52-17', name: '52/17', focusDuration: 52, breakDuration: 17, longBreakDuration: 17, sessionsUntilLongBreak: 4 },
+  { id: 'ultradian-90', name: 'Ultradian 90', focusDuration: 90, breakDuration: 20, longBreakDuration: 30, sessionsUntilLongBreak: 3 }
+];
+
+// Get the presets saved by the user
+export const getUserPresets = (): TimerPreset[] => {
+  return readRecords(STORAGE_KEYS.PRESETS, presetSchema);
+};
+
+// Get built-in presets followed by the user's
+export const getPresets = (): TimerPreset[] => {
+  return [...BUILT_IN_PRESETS, ...getUserPresets()];
+};
+
+// Save durations as a named preset
+export const createPreset = (name: string, durations: TimerDurations): TimerPreset => {
+  const preset: TimerPreset = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    focusDuration: durations.focusDuration,
+    breakDuration: durations.breakDuration,
+    longBreakDuration: durations.longBreakDuration,
+    sessionsUntilLongBreak: durations.sessionsUntilLongBreak
+  };
+  writeKey(STORAGE_KEYS.PRESETS, [...getUserPresets(), preset]);
+  return preset;
+};
+
+// Delete a user preset; built-in presets cannot be deleted
+export const deletePreset = (id: string): boolean => {
+  const presets = getUserPresets();
+  if (!presets.some(preset => preset.id === id)) return false;
+  writeKey(STORAGE_KEYS.PRESETS, presets.filter(preset => preset.id !== id));
+  return true;
+};
+
+// Timer config that runs a preset. The Flowtime settings of the current
+// config are kept for when that mode is turned back on.
+export const getPresetConfig = (preset: TimerPreset, current?: TimerConfig): TimerConfig => ({
+  focusDuration: preset.focusDuration,
+  breakDuration: preset.breakDuration,
+  longBreakDuration: preset.longBreakDuration,
+  sessionsUntilLongBreak: preset.sessionsUntilLongBreak,
+  presetId: preset.id,
+  ...(current?.flowtime ? { flowtime: current.flowtime } : {})
+});
+
+// Preset the config is running, or null for custom durations or a custom
+// sequence. Configs saved before presets existed are matched by their durations.
+export const getActivePreset = (config: TimerConfig, presets: TimerPreset[] = getPresets()): TimerPreset | null => {
+  if (config.sequence && config.sequence.length > 0) return null;
+  if (config.presetId !== undefined) {
+    return presets.find(preset => preset.id === config.presetId) ?? null;
+  }
+  return presets.find(preset =>
+    preset.focusDuration === config.focusDuration &&
+    preset.breakDuration === config.breakDuration &&
+    preset.longBreakDuration === config.longBreakDuration &&
+    preset.sessionsUntilLongBreak === config.sessionsUntilLongBreak
+  ) ?? null;
+};
+
+// Get all tasks in display order
+export const getTasks = (): Task[] => {
+  initializeStorage();
+  return readRecords(STORAGE_KEYS.TASKS, taskSchema).sort((a, b) => a.order - b.order);
+};
+
+const saveTasks = (tasks: Task[]): void => {
+  writeKey(STORAGE_KEYS.TASKS, tasks);
+};
+
+// Create a task at the end of the list
+export const createTask = (
+  task: Pick<Task, 'title'> & Partial<Pick<Task, 'notes' | 'estimatedPomodoros'>>
+): Task => {
+  const tasks = getTasks();
+  const newTask: Task = {
+    id: crypto.randomUUID(),
+    title: task.title.trim(),
+    notes: task.notes?.trim() ?? '',
+    estimatedPomodoros: Math.max(1, Math.round(task.estimatedPomodoros ?? 1)),
+    completed: false,
+    order: tasks.length > 0 ? tasks[tasks.length - 1].order + 1 : 0,
+    createdAt: new Date().toISOString()
+  };
+  tasks.push(newTask);
+  saveTasks(tasks);
+  return newTask;
+};
+
+// Update a task's fields
+export const updateTask = (
+  id: string,
+  updates: Partial<Omit<Task, 'id' | 'createdAt'>>
+): Task | null => {
+  const tasks = getTasks();
+  const index = tasks.findIndex(task => task.id === id);
+  if (index === -1) {
+    return null;
+  }
+  const updatedTask = { ...tasks[index], ...updates };
+  if (updates.estimatedPomodoros !== undefined) {
+    updatedTask.estimatedPomodoros = Math.max(1, Math.round(updates.estimatedPomodoros));
+  }
+  tasks[index] = updatedTask;
+  saveTasks(tasks);
+  return updatedTask;
+};
+
+// Delete a task; its sessions keep the task id for history
+export const deleteTask = (id: string): void => {
+  saveTasks(getTasks().filter(task => task.id !== id));
+  if (getActiveTaskId() === id) {
+    setActiveTaskId(null);
+  }
+};
+
+// Reorder tasks to match the given list of ids
+export const reorderTasks = (ids: string[]): void => {
+  const tasks = getTasks();
+  tasks.forEach(task => {
+    const index = ids.indexOf(task.id);
+    task.order = index === -1 ? ids.length + task.order : index;
+  });
+  saveTasks(tasks.sort((a, b) => a.order - b.order));
+};
+
+// Get the task selected on the timer screen
+export const getActiveTaskId = (): string | null => {
+  const id = readKey(STORAGE_KEYS.ACTIVE_TASK);
+  if (id === undefined || id === null) {
+    return null;
+  }
+  if (typeof id !== 'string') {
+    quarantine(STORAGE_KEYS.ACTIVE_TASK, [{ record: id, reason: 'Expected a task id' }]);
+    cachedStorage.removeItem(STORAGE_KEYS.ACTIVE_TASK);
+    return null;
+  }
+  return id;
+};
+
+// Select the task that focus sessions are attributed to
+export const setActiveTaskId = (id: string | null): void => {
+  if (id) {
+    writeKey(STORAGE_KEYS.ACTIVE_TASK, id);
   } else {
-    // First session ever
-    stats.dailyStreak = 1;
+    cachedStorage.removeItem(STORAGE_KEYS.ACTIVE_TASK);
   }
+};
 
-  stats.lastSessionDate = today;
-  safeLocalStorage.setItem(STORAGE_KEYS.STATISTICS, JSON.stringify(stats));
+// Count the completed focus sessions recorded against each task
+export const getTaskPomodoroCounts = (): Record<string, number> => {
+  return getSessions().reduce<Record<string, number>>((counts, session) => {
+    if (session.phase === 'focus' && session.completed && session.taskId) {
+      counts[session.taskId] = (counts[session.taskId] ?? 0) + 1;
+    }
+    return counts;
+  }, {});
+};
+
+// Interruption counts derived from session history
+export interface InterruptionStats {
+  total: number;
+  internal: number;
+  external: number;
+  byHour: number[]; // 24 buckets, local time
+  byWeekday: number[]; // 7 buckets, Sunday first
+}
+
+// Count interruptions by type, hour of day and day of week
+export const getInterruptionStats = (): InterruptionStats => {
+  const stats: InterruptionStats = {
+    total: 0,
+    internal: 0,
+    external: 0,
+    byHour: new Array(24).fill(0),
+    byWeekday: new Array(7).fill(0)
+  };
+
+  getSessions().forEach(session => {
+    (session.interruptions ?? []).forEach(interruption => {
+      const date = new Date(interruption.timestamp);
+      stats.total += 1;
+      stats[interruption.type] += 1;
+      stats.byHour[date.getHours()] += 1;
+      stats.byWeekday[date.getDay()] += 1;
+    });
+  });
+
+  return stats;
 };
 
-// Clear all data (for testing or user request)
+// Clear all data (for testing or user request). The subscription is kept
+// since it is not the user's data to erase.
 export const clearAllData = (): void => {
   if (!isClient) return;
   Object.values(STORAGE_KEYS).forEach(key => {
-    safeLocalStorage.removeItem(key);
+    if (key !== STORAGE_KEYS.SUBSCRIPTION) cachedStorage.removeItem(key);
   });
+  sessionCache = [];
+  persistSessions(() => adapter.replaceSessions(activeProfileId, []));
   initializeStorage();
 };
 
 // Export data for backup
 export const exportData = (): string => {
   const data = {
+    version: CURRENT_SCHEMA_VERSION,
     preferences: getPreferences(),
     timerConfig: getTimerConfig(),
+    goals: getGoals(),
     sessions: getSessions(),
-    statistics: getStatistics()
+    statistics: getStatistics(),
+    tasks: getTasks(),
+    presets: getUserPresets()
   };
   return JSON.stringify(data);
 };
 
-// Import data from backup
-export const importData = (jsonData: string): boolean => {
+// Backup contents that passed validation, plus the records that did not.
+// Statistics in a backup are ignored; they are recomputed from sessions.
+interface ParsedBackup {
+  preferences?: Partial<UserPreferences>;
+  timerConfig?: Partial<TimerConfig>;
+  goals?: Partial<FocusGoals>;
+  sessions?: SessionData[];
+  tasks?: Task[];
+  presets?: TimerPreset[];
+  invalid: { key: StorageKey; record: unknown; reason: string }[];
+}
+
+// Read a backup, migrating it from the schema version it was exported with
+const parseBackup = (jsonData: string): ParsedBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonData);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('The file is not a Pomodoro backup');
+  }
+  const sections = data as Record<string, unknown>;
+  const version = typeof sections.version === 'number' ? sections.version : 1;
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`The backup was made by a newer version of the app (schema ${version})`);
+  }
+
+  const backup: ParsedBackup = { invalid: [] };
+
+  const readSection = <T>(key: StorageKey, value: unknown, schema: Schema<T>): Partial<T> | undefined => {
+    if (value === undefined) return undefined;
+    const result = validateSettings(migrate(key, value, version), schema);
+    if (!result) {
+      backup.invalid.push({ key, record: value, reason: 'Not an object' });
+      return undefined;
+    }
+    const invalidFields = Object.keys(result.invalidFields);
+    if (invalidFields.length > 0) {
+      backup.invalid.push({ key, record: result.invalidFields, reason: `Invalid fields: ${invalidFields.join(', ')}` });
+    }
+    return result.value;
+  };
+
+  const readList = <T>(key: StorageKey, value: unknown, schema: Schema<T>): T[] | undefined => {
+    if (value === undefined) return undefined;
+    const result = validateRecords(migrate(key, value, version), schema);
+    if (!result) {
+      backup.invalid.push({ key, record: value, reason: 'Not a list of records' });
+      return undefined;
+    }
+    result.invalid.forEach(entry => backup.invalid.push({ key, ...entry }));
+    return result.valid;
+  };
+
+  backup.preferences = readSection(STORAGE_KEYS.PREFERENCES, sections.preferences, preferencesSchema);
+  backup.timerConfig = readSection(STORAGE_KEYS.TIMER_CONFIG, sections.timerConfig, timerConfigSchema);
+  backup.goals = readSection(STORAGE_KEYS.GOALS, sections.goals, goalsSchema);
+  backup.sessions = readList(STORAGE_KEYS.SESSIONS, sections.sessions, sessionSchema);
+  backup.tasks = readList(STORAGE_KEYS.TASKS, sections.tasks, taskSchema);
+  backup.presets = readList(STORAGE_KEYS.PRESETS, sections.presets, presetSchema);
+  return backup;
+};
+
+// Setting that an import would change
+export interface ImportSettingChange extends SettingChange {
+  section: 'preferences' | 'timerConfig' | 'goals';
+}
+
+// What a backup contains compared with the local data
+export interface ImportPreview {
+  sessions: number;
+  duplicateSessions: number; // already present locally, by id or overlapping time
+  tasks: number;
+  duplicateTasks: number;
+  invalidRecords: number;
+  dateRange: { start: string; end: string } | null;
+  changes: ImportSettingChange[];
+}
+
+export type ImportPreviewResult =
+  | { valid: true; preview: ImportPreview }
+  | { valid: false; reason: string };
+
+// Summarize a backup before importing it; nothing is written
+export const previewImport = (jsonData: string): ImportPreviewResult => {
+  let backup: ParsedBackup;
+  try {
+    backup = parseBackup(jsonData);
+  } catch (error) {
+    return { valid: false, reason: error instanceof Error ? error.message : 'The file could not be read' };
+  }
+
+  const sessions = backup.sessions ?? [];
+  const tasks = backup.tasks ?? [];
+  const startTimes = sessions.map(session => session.startTime).sort();
+  const endTimes = sessions.map(session => session.endTime).sort();
+
+  return {
+    valid: true,
+    preview: {
+      sessions: sessions.length,
+      duplicateSessions: mergeSessions(getSessions(), sessions, 'skipDuplicates').skipped,
+      tasks: tasks.length,
+      duplicateTasks: mergeTasks(getTasks(), tasks, 'skipDuplicates').skipped,
+      invalidRecords: backup.invalid.length,
+      dateRange: sessions.length > 0
+        ? { start: startTimes[0], end: endTimes[endTimes.length - 1] }
+        : null,
+      changes: [
+        ...diffSettings(getTimerConfig(), backup.timerConfig ?? {})
+          .map(change => ({ section: 'timerConfig' as const, ...change })),
+        ...diffSettings(getPreferences(), backup.preferences ?? {})
+          .map(change => ({ section: 'preferences' as const, ...change })),
+        ...diffSettings(getGoals(), backup.goals ?? {})
+          .map(change => ({ section: 'goals' as const, ...change }))
+      ]
+    }
+  };
+};
+
+// Rebuild the stored totals from session history
+const recomputeStatistics = (sessions: SessionData[]): void => {
+  const stats = sessions.reduce<Statistics>((totals, session) => {
+    if (session.phase === 'focus') {
+      totals.totalFocusTime += session.duration;
+    } else {
+      totals.totalBreakTime += session.duration;
+    }
+    if (session.completed) {
+      totals.completedSessions += 1;
+    }
+    return totals;
+  }, { ...DEFAULT_STATISTICS });
+
+  const lastSession = sessions.reduce<SessionData | null>(
+    (latest, session) => (!latest || session.startTime > latest.startTime ? session : latest),
+    null
+  );
+  stats.lastSessionDate = lastSession
+    ? getDayKey(new Date(lastSession.startTime), getPreferences().dayStartHour)
+    : null;
+  writeKey(STORAGE_KEYS.STATISTICS, stats);
+};
+
+// Import data from backup. Only records that pass validation are written;
+// settings are kept as they are when skipping duplicates.
+export const importData = (jsonData: string, mode: ImportMode = 'replace'): boolean => {
   if (!isClient) return false;
   try {
-    const data = JSON.parse(jsonData);
-    if (data.preferences) savePreferences(data.preferences);
-    if (data.timerConfig) saveTimerConfig(data.timerConfig);
-    if (data.sessions) safeLocalStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(data.sessions));
-    if (data.statistics) safeLocalStorage.setItem(STORAGE_KEYS.STATISTICS, JSON.stringify(data.statistics));
+    const backup = parseBackup(jsonData);
+    // Keep the current data so a bad import can be rolled back
+    if (getPreferences().autoBackup) {
+      createBackup('beforeImport');
+    }
+    backup.invalid.forEach(({ key, record, reason }) => {
+      quarantine(key, [{ record, reason: `Imported: ${reason}` }]);
+    });
+
+    if (mode !== 'skipDuplicates') {
+      if (backup.preferences) savePreferences({ ...getPreferences(), ...backup.preferences });
+      if (backup.timerConfig) saveTimerConfig({ ...getTimerConfig(), ...backup.timerConfig });
+      if (backup.goals) saveGoals({ ...getGoals(), ...backup.goals });
+    }
+    if (backup.sessions) {
+      const { records } = mergeSessions(getSessions(), backup.sessions, mode);
+      sessionCache = records;
+      persistSessions(() => adapter.replaceSessions(activeProfileId, records));
+    }
+    if (backup.tasks) {
+      saveTasks(mergeTasks(getTasks(), backup.tasks, mode).records);
+    }
+    if (backup.presets) {
+      writeKey(STORAGE_KEYS.PRESETS, mergePresets(getUserPresets(), backup.presets, mode));
+    }
+    recomputeStatistics(getSessions());
     return true;
   } catch (error) {
     console.error('Error importing data:', error);
@@ -262,7 +1152,200 @@ export const importData = (jsonData: string): boolean => {
   }
 };
 
-// Initialize storage on module load (client-side only)
-if (isClient) {
+// Get stored snapshots, newest first
+export const getBackups = (): BackupSnapshot[] => {
   initializeStorage();
-}
+  return readRecords(STORAGE_KEYS.BACKUPS, backupSchema)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Snapshot all data, dropping the oldest snapshots beyond the configured limit
+export const createBackup = (reason: BackupSnapshot['reason']): BackupSnapshot => {
+  const snapshot: BackupSnapshot = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    reason,
+    data: exportData()
+  };
+  writeKey(STORAGE_KEYS.BACKUPS, [snapshot, ...getBackups()].slice(0, getPreferences().autoBackupKeep));
+  return snapshot;
+};
+
+// Take a scheduled snapshot when auto-backups are on and the last one is due
+export const runScheduledBackup = (now: Date = new Date()): boolean => {
+  const preferences = getPreferences();
+  if (!isClient || !preferences.autoBackup) return false;
+
+  const lastScheduled = getBackups().find(backup => backup.reason === 'scheduled');
+  const interval = preferences.autoBackupIntervalHours * 60 * 60 * 1000;
+  if (lastScheduled && now.getTime() - new Date(lastScheduled.createdAt).getTime() < interval) {
+    return false;
+  }
+  createBackup('scheduled');
+  return true;
+};
+
+// Replace all data with a stored snapshot
+export const restoreBackup = (id: string): boolean => {
+  const snapshot = getBackups().find(backup => backup.id === id);
+  if (!snapshot) return false;
+  return importData(snapshot.data, 'replace');
+};
+
+// Get sync bookkeeping, creating a device id on first use
+export const getSyncState = (): SyncState => {
+  const defaults: SyncState = {
+    deviceId: '',
+    cursors: { sessions: 0, config: 0, preferences: 0 },
+    fingerprints: { sessions: {}, config: {}, preferences: {} },
+    queue: [],
+    lastSyncedAt: null
+  };
+  const state = readSettings(STORAGE_KEYS.SYNC, syncStateSchema, defaults);
+  if (!state.deviceId) {
+    const withDevice = { ...state, deviceId: crypto.randomUUID() };
+    saveSyncState(withDevice);
+    return withDevice;
+  }
+  return state;
+};
+
+export const saveSyncState = (state: SyncState): void => {
+  writeKey(STORAGE_KEYS.SYNC, state);
+};
+
+// Apply sessions changed on another device
+export const applySyncedSessions = (updated: SessionData[], deletedIds: string[]): void => {
+  const replacedIds = new Set([...deletedIds, ...updated.map(session => session.id)]);
+  const records = [...sessionCache.filter(session => !replacedIds.has(session.id)), ...updated]
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+  sessionCache = records;
+  if (deletedIds.length > 0) {
+    persistSessions(() => adapter.replaceSessions(activeProfileId, records));
+  } else {
+    persistSessions(() => adapter.putSessions(activeProfileId, updated));
+  }
+  recomputeStatistics(records);
+};
+
+// Get the subscription as last reported by the billing provider; it is the
+// same for every profile
+export const getSubscription = (): Subscription => {
+  return readSettings(STORAGE_KEYS.SUBSCRIPTION, subscriptionSchema, DEFAULT_SUBSCRIPTION);
+};
+
+export const saveSubscription = (subscription: Subscription): void => {
+  writeKey(STORAGE_KEYS.SUBSCRIPTION, subscription);
+};
+
+// Get the imported meeting calendar, if there is one
+export const getCalendar = (): StoredCalendar | null => {
+  const calendar = readKey(STORAGE_KEYS.CALENDAR);
+  if (calendar === undefined) {
+    return null;
+  }
+  const result = validateRecord(calendar, calendarSchema);
+  if (!result.valid) {
+    quarantine(STORAGE_KEYS.CALENDAR, [{ record: calendar, reason: result.reason }]);
+    cachedStorage.removeItem(STORAGE_KEYS.CALENDAR);
+    return null;
+  }
+  return result.value;
+};
+
+export const saveCalendar = (calendar: StoredCalendar): void => {
+  writeKey(STORAGE_KEYS.CALENDAR, calendar);
+};
+
+export const removeCalendar = (): void => {
+  cachedStorage.removeItem(STORAGE_KEYS.CALENDAR);
+};
+
+const profileListeners = new Set<() => void>();
+
+// Be told when profiles are added, renamed or deleted, or another one is opened
+export const onProfileChange = (listener: () => void): (() => void) => {
+  profileListeners.add(listener);
+  return () => {
+    profileListeners.delete(listener);
+  };
+};
+
+const notifyProfileChange = (): void => {
+  profileListeners.forEach(listener => listener());
+};
+
+// Store the profile list and the active profile, then tell the other tabs
+const saveProfiles = (): void => {
+  const list = JSON.stringify(profiles);
+  const activeId = activeProfileId;
+  Promise.all([adapter.setItem(PROFILES_KEY, list), adapter.setItem(ACTIVE_PROFILE_KEY, activeId)])
+    .then(() => storageChannel?.postMessage({ type: 'profiles' } satisfies StorageMessage))
+    .catch(error => console.error('Error writing profiles:', error));
+  notifyProfileChange();
+};
+
+// Get all profiles in the order they were created
+export const getProfiles = (): Profile[] => {
+  return [...profiles];
+};
+
+// Get the profile whose data is loaded
+export const getActiveProfile = (): Profile => {
+  return profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+};
+
+// Add a profile; it starts with default settings and no history
+export const createProfile = (name: string): Profile => {
+  const profile: Profile = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    createdAt: new Date().toISOString()
+  };
+  profiles = [...profiles, profile];
+  saveProfiles();
+  return profile;
+};
+
+export const renameProfile = (id: string, name: string): Profile | null => {
+  const profile = profiles.find(existing => existing.id === id);
+  if (!profile) {
+    return null;
+  }
+  const renamed = { ...profile, name: name.trim() };
+  profiles = profiles.map(existing => (existing.id === id ? renamed : existing));
+  saveProfiles();
+  return renamed;
+};
+
+// Load another profile's data in place of the current one; other tabs follow
+export const switchProfile = async (id: string): Promise<boolean> => {
+  if (!profiles.some(profile => profile.id === id)) return false;
+  if (id === activeProfileId) return true;
+  try {
+    await loadProfile(id);
+  } catch (error) {
+    console.error('Error switching profile:', error);
+    return false;
+  }
+  saveProfiles();
+  return true;
+};
+
+// Delete a profile and all of its data. The active profile cannot be
+// deleted, which also keeps at least one profile around.
+export const deleteProfile = (id: string): boolean => {
+  if (id === activeProfileId || !profiles.some(profile => profile.id === id)) {
+    return false;
+  }
+  profiles = profiles.filter(profile => profile.id !== id);
+  saveProfiles();
+  Promise.all([
+    ...Object.values(STORAGE_KEYS)
+      .filter(key => !SHARED_KEYS.has(key))
+      .map(key => adapter.removeItem(profileKey(key, id))),
+    adapter.replaceSessions(id, [])
+  ]).catch(error => console.error('Error deleting profile data:', error));
+  return true;
+};
+
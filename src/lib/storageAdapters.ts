@@ -0,0 +1,239 @@
+import type { TimerPhase } from '../types/timer';
+import type { SessionData } from './storage';
+
+// Backends for lib/storage. Settings and other small values are stored as
+// strings by key; sessions are stored as individual records so saving one
+// does not rewrite the whole history. Each profile has its own sessions.
+
+// Profile that owns data stored before profiles existed
+export const DEFAULT_PROFILE_ID = 'default';
+
+export interface SessionQuery {
+  from?: string;  // ISO start time, inclusive
+  to?: string;  // ISO start time, exclusive
+  phase?: TimerPhase;
+}
+
+export interface StorageAdapter {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+  // Stored sessions ordered by start time; records are validated by the caller
+  getSessions: (profileId: string, query?: SessionQuery) => Promise<unknown[]>;
+  // Add or update sessions by id
+  putSessions: (profileId: string, sessions: SessionData[]) => Promise<void>;
+  replaceSessions: (profileId: string, sessions: SessionData[]) => Promise<void>;
+}
+
+const matchesQuery = (session: SessionData, { from, to, phase }: SessionQuery): boolean => {
+  return (!from || session.startTime >= from) &&
+    (!to || session.startTime < to) &&
+    (!phase || session.phase === phase);
+};
+
+const byStartTime = (a: SessionData, b: SessionData) => a.startTime.localeCompare(b.startTime);
+
+// Keeps everything in memory; used for server rendering and tests
+export const createMemoryAdapter = (): StorageAdapter => {
+  const items = new Map<string, string>();
+  const profiles = new Map<string, Map<string, SessionData>>();
+
+  const getProfileSessions = (profileId: string): Map<string, SessionData> => {
+    if (!profiles.has(profileId)) profiles.set(profileId, new Map());
+    return profiles.get(profileId)!;
+  };
+
+  return {
+    getItem: async key => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async key => {
+      items.delete(key);
+    },
+    getSessions: async (profileId, query = {}) => (
+      Array.from(getProfileSessions(profileId).values())
+        .filter(session => matchesQuery(session, query))
+        .sort(byStartTime)
+    ),
+    putSessions: async (profileId, records) => {
+      const sessions = getProfileSessions(profileId);
+      records.forEach(session => sessions.set(session.id, session));
+    },
+    replaceSessions: async (profileId, records) => {
+      profiles.set(profileId, new Map(records.map(session => [session.id, session])));
+    }
+  };
+};
+
+// localStorage key holding a profile's session records for the localStorage backend
+const getLocalSessionsKey = (profileId: string): string => (
+  profileId === DEFAULT_PROFILE_ID ? 'pomodoro_session_records' : `pomodoro_session_records:${profileId}`
+);
+
+// Fallback for browsers without IndexedDB; sessions are kept as one array
+export const createLocalStorageAdapter = (): StorageAdapter => {
+  const getItem = (key: string): string | null => {
+    try {
+      return localStorage.getItem(key);
+    } catch (error) {
+      console.error('Error accessing localStorage:', error);
+      return null;
+    }
+  };
+  const setItem = (key: string, value: string): void => {
+    try {
+      localStorage.setItem(key, value);
+    } catch (error) {
+      console.error('Error writing to localStorage:', error);
+    }
+  };
+  const removeItem = (key: string): void => {
+    try {
+      localStorage.removeItem(key);
+    } catch (error) {
+      console.error('Error removing from localStorage:', error);
+    }
+  };
+
+  const readSessions = (profileId: string): SessionData[] => {
+    const raw = getItem(getLocalSessionsKey(profileId));
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Error reading sessions from localStorage:', error);
+      return [];
+    }
+  };
+
+  return {
+    getItem: async key => getItem(key),
+    setItem: async (key, value) => setItem(key, value),
+    removeItem: async key => removeItem(key),
+    getSessions: async (profileId, query = {}) => (
+      readSessions(profileId).filter(session => matchesQuery(session, query)).sort(byStartTime)
+    ),
+    putSessions: async (profileId, records) => {
+      const sessions = new Map(readSessions(profileId).map(session => [session.id, session]));
+      records.forEach(session => sessions.set(session.id, session));
+      setItem(getLocalSessionsKey(profileId), JSON.stringify(Array.from(sessions.values())));
+    },
+    replaceSessions: async (profileId, records) => {
+      if (records.length > 0) {
+        setItem(getLocalSessionsKey(profileId), JSON.stringify(records));
+      } else {
+        removeItem(getLocalSessionsKey(profileId));
+      }
+    }
+  };
+};
+
+const DB_NAME = 'pomodoro';
+const DB_VERSION = 2;
+const ITEMS_STORE = 'items';
+const SESSIONS_STORE = 'sessions';
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionComplete = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Session records carry the id of the profile they belong to
+type StoredSession = SessionData & { profileId: string };
+
+const createSessionsStore = (db: IDBDatabase): IDBObjectStore => {
+  const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: ['profileId', 'id'] });
+  sessions.createIndex('startTime', ['profileId', 'startTime']);
+  sessions.createIndex('phaseStartTime', ['profileId', 'phase', 'startTime']);
+  return sessions;
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(ITEMS_STORE);
+        createSessionsStore(db);
+        return;
+      }
+      if (event.oldVersion < 2) {
+        // Version 1 keyed sessions by id alone; move them to the default profile
+        const existing = request.transaction!.objectStore(SESSIONS_STORE).getAll();
+        existing.onsuccess = () => {
+          db.deleteObjectStore(SESSIONS_STORE);
+          const sessions = createSessionsStore(db);
+          (existing.result as SessionData[]).forEach(session => {
+            sessions.put({ ...session, profileId: DEFAULT_PROFILE_ID });
+          });
+        };
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Drop the profile id added for storage
+const toSession = (record: StoredSession): SessionData => {
+  const session: Partial<StoredSession> = { ...record };
+  delete session.profileId;
+  return session as SessionData;
+};
+
+// ISO timestamps and ids sort before '\uffff', so it stands in for an open end
+const OPEN_END = '\uffff';
+
+// Stores sessions in their own object store, indexed by start time and phase
+export const createIndexedDBAdapter = async (): Promise<StorageAdapter> => {
+  const db = await openDatabase();
+
+  const write = (storeName: string, apply: (store: IDBObjectStore) => void): Promise<void> => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    apply(transaction.objectStore(storeName));
+    return transactionComplete(transaction);
+  };
+
+  return {
+    getItem: async key => {
+      const store = db.transaction(ITEMS_STORE, 'readonly').objectStore(ITEMS_STORE);
+      const value = await requestResult(store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: (key, value) => write(ITEMS_STORE, store => store.put(value, key)),
+    removeItem: key => write(ITEMS_STORE, store => store.delete(key)),
+    getSessions: async (profileId, query = {}) => {
+      const store = db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE);
+      const from = query.from ?? '';
+      const to = query.to ?? OPEN_END;
+      const records: StoredSession[] = query.phase
+        ? await requestResult(store.index('phaseStartTime').getAll(
+          IDBKeyRange.bound([profileId, query.phase, from], [profileId, query.phase, to], false, true)
+        ))
+        : await requestResult(store.index('startTime').getAll(
+          IDBKeyRange.bound([profileId, from], [profileId, to], false, true)
+        ));
+      return records.map(toSession);
+    },
+    putSessions: (profileId, records) => write(SESSIONS_STORE, store => {
+      records.forEach(session => store.put({ ...session, profileId }));
+    }),
+    replaceSessions: (profileId, records) => write(SESSIONS_STORE, store => {
+      store.delete(IDBKeyRange.bound([profileId, ''], [profileId, OPEN_END]));
+      records.forEach(session => store.put({ ...session, profileId }));
+    })
+  };
+};
@@ -0,0 +1,296 @@
+import type { QueuedChange, SyncCollection, SyncPullResponse, SyncPushResponse, SyncRecord, SyncState } from '../types/sync';
+import {
+  SessionData,
+  applySyncedSessions,
+  getActiveProfile,
+  getPreferences,
+  getSessions,
+  getSyncState,
+  getTimerConfig,
+  onStorageChange,
+  savePreferences,
+  saveSyncState,
+  saveTimerConfig,
+  StorageKey
+} from './storage';
+import { isNewerRecord, isValidSyncRecord } from './syncRecords';
+
+// Keeps sessions, timer config and preferences in step with the sync API.
+// Local changes are found by comparing records with a hash of their last
+// synced value and queued, so writes made offline are pushed once the
+// server can be reached. Conflicts resolve by last-writer-wins.
+
+const COLLECTIONS: SyncCollection[] = ['sessions', 'config', 'preferences'];
+
+// Storage keys holding each collection
+const COLLECTION_KEYS: Record<SyncCollection, StorageKey> = {
+  sessions: 'pomodoro_sessions',
+  config: 'pomodoro_config',
+  preferences: 'pomodoro_preferences'
+};
+
+const SYNC_INTERVAL = 30 * 1000;
+const PUSH_DELAY = 2000;
+
+// Before the first sync, local settings lose to any copy already on the server
+const NEVER = new Date(0).toISOString();
+
+// Only one tab runs the sync loop
+const SYNC_LOCK = 'pomodoro_sync';
+
+export interface SyncStatus {
+  pendingChanges: number;
+  lastSyncedAt: string | null;
+}
+
+const syncListeners = new Set<() => void>();
+
+// Be told when changes from another device have been applied locally
+export const onSyncApplied = (listener: () => void): (() => void) => {
+  syncListeners.add(listener);
+  return () => {
+    syncListeners.delete(listener);
+  };
+};
+
+// Short, stable fingerprint of a record's value
+const hashValue = (value: unknown): string => {
+  const text = JSON.stringify(value);
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `${text.length}:${(hash >>> 0).toString(36)}`;
+};
+
+// Current local records of a collection by id
+const getLocalRecords = (collection: SyncCollection): Record<string, unknown> => {
+  switch (collection) {
+    case 'sessions':
+      return Object.fromEntries(getSessions().map(session => [session.id, session]));
+    case 'config':
+      return { default: getTimerConfig() };
+    case 'preferences':
+      return { default: getPreferences() };
+  }
+};
+
+// Queue a change, replacing any queued change to the same record
+const enqueue = (queue: QueuedChange[], change: QueuedChange): QueuedChange[] => [
+  ...queue.filter(queued => queued.collection !== change.collection || queued.record.id !== change.record.id),
+  change
+];
+
+// Queue every record that differs from its last synced value
+const detectLocalChanges = (state: SyncState): SyncState => {
+  const now = new Date().toISOString();
+  let { queue } = state;
+  const fingerprints = { ...state.fingerprints };
+
+  COLLECTIONS.forEach(collection => {
+    const local = getLocalRecords(collection);
+    const known = { ...fingerprints[collection] };
+    const updatedAt = state.lastSyncedAt === null && collection !== 'sessions' ? NEVER : now;
+    const change = (id: string, value: unknown): QueuedChange => ({
+      collection,
+      record: { id, value, updatedAt, deviceId: state.deviceId, version: 0 }
+    });
+
+    Object.entries(local).forEach(([id, value]) => {
+      const hash = hashValue(value);
+      if (known[id] !== hash) {
+        queue = enqueue(queue, change(id, value));
+        known[id] = hash;
+      }
+    });
+    Object.keys(known).forEach(id => {
+      if (!(id in local)) {
+        queue = enqueue(queue, change(id, null));
+        delete known[id];
+      }
+    });
+    fingerprints[collection] = known;
+  });
+
+  return { ...state, queue, fingerprints };
+};
+
+// Write records that won against local data into storage
+const applyRemoteRecords = (state: SyncState, collection: SyncCollection, records: SyncRecord[]): SyncState => {
+  const pending = new Map(
+    state.queue
+      .filter(change => change.collection === collection)
+      .map(change => [change.record.id, change.record])
+  );
+  const winners = records.filter(record => {
+    const local = pending.get(record.id);
+    return !local || isNewerRecord(record, local);
+  });
+  if (winners.length === 0) return state;
+
+  const winnerIds = new Set(winners.map(record => record.id));
+  switch (collection) {
+    case 'sessions':
+      applySyncedSessions(
+        winners.filter(record => record.value !== null).map(record => record.value as SessionData),
+        winners.filter(record => record.value === null).map(record => record.id)
+      );
+      break;
+    case 'config':
+      winners.forEach(record => {
+        if (record.value) saveTimerConfig({ ...getTimerConfig(), ...(record.value as object) });
+      });
+      break;
+    case 'preferences':
+      winners.forEach(record => {
+        if (record.value) savePreferences({ ...getPreferences(), ...(record.value as object) });
+      });
+      break;
+  }
+
+  // Fingerprint what was actually stored so it is not pushed back
+  const local = getLocalRecords(collection);
+  const known = { ...state.fingerprints[collection] };
+  winnerIds.forEach(id => {
+    if (id in local) {
+      known[id] = hashValue(local[id]);
+    } else {
+      delete known[id];
+    }
+  });
+
+  return {
+    ...state,
+    queue: state.queue.filter(change => change.collection !== collection || !winnerIds.has(change.record.id)),
+    fingerprints: { ...state.fingerprints, [collection]: known }
+  };
+};
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`${init?.method ?? 'GET'} ${url} failed with ${response.status}`);
+  }
+  return response.json();
+};
+
+// Each profile has its own sync state, so a sync stops if the profile is switched
+const checkProfile = (profileId: string): void => {
+  if (getActiveProfile().id !== profileId) {
+    throw new Error('The profile was switched during sync');
+  }
+};
+
+const pushCollection = async (state: SyncState, collection: SyncCollection, profileId: string): Promise<SyncState> => {
+  const changes = state.queue.filter(change => change.collection === collection);
+  if (changes.length === 0) return state;
+
+  const response = await fetchJson<SyncPushResponse>(`/api/${collection}?profile=${encodeURIComponent(profileId)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ records: changes.map(change => change.record) })
+  });
+  checkProfile(profileId);
+
+  const next = { ...state, queue: state.queue.filter(change => change.collection !== collection) };
+
+  // Records where the server kept a newer copy
+  const rejected = response.records.filter(record => {
+    const sent = changes.find(change => change.record.id === record.id);
+    return sent && sent.record.updatedAt !== record.updatedAt;
+  });
+  return applyRemoteRecords(next, collection, rejected);
+};
+
+const pullCollection = async (state: SyncState, collection: SyncCollection, profileId: string): Promise<SyncState> => {
+  const response = await fetchJson<SyncPullResponse>(
+    `/api/${collection}?profile=${encodeURIComponent(profileId)}&since=${state.cursors[collection]}`
+  );
+  checkProfile(profileId);
+  const records = response.records.filter(record => isValidSyncRecord(collection, record));
+  const next = applyRemoteRecords(state, collection, records);
+  return { ...next, cursors: { ...next.cursors, [collection]: response.version } };
+};
+
+let isSyncing = false;
+
+// Push queued changes and pull remote ones; failures leave the queue for the next try
+export const syncNow = async (): Promise<void> => {
+  if (isSyncing || !getPreferences().syncEnabled) return;
+
+  let state = detectLocalChanges(getSyncState());
+  saveSyncState(state);
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+  isSyncing = true;
+  const profileId = getActiveProfile().id;
+  try {
+    for (const collection of COLLECTIONS) {
+      state = await pullCollection(state, collection, profileId);
+      saveSyncState(state);
+      state = await pushCollection(state, collection, profileId);
+      saveSyncState(state);
+    }
+    saveSyncState({ ...state, lastSyncedAt: new Date().toISOString() });
+    syncListeners.forEach(listener => listener());
+  } catch (error) {
+    console.error('Sync failed, changes stay queued:', error);
+  } finally {
+    isSyncing = false;
+  }
+};
+
+// Pending changes and the time of the last successful sync
+export const getSyncStatus = (): SyncStatus => {
+  const state = getSyncState();
+  return { pendingChanges: state.queue.length, lastSyncedAt: state.lastSyncedAt };
+};
+
+// Run the sync loop while the app is open; returns a function that stops it
+export const startSync = (): (() => void) => {
+  let pushTimeout: ReturnType<typeof setTimeout> | null = null;
+  let cleanup: (() => void) | null = null;
+  let releaseLock: (() => void) | null = null;
+  let isStopped = false;
+
+  const run = () => {
+    const interval = setInterval(syncNow, SYNC_INTERVAL);
+    const handleOnline = () => syncNow();
+    window.addEventListener('online', handleOnline);
+
+    // Push soon after local writes to synced data
+    const unsubscribe = onStorageChange(key => {
+      if (isSyncing || !COLLECTIONS.some(collection => COLLECTION_KEYS[collection] === key)) return;
+      if (pushTimeout) clearTimeout(pushTimeout);
+      pushTimeout = setTimeout(syncNow, PUSH_DELAY);
+    });
+
+    syncNow();
+    cleanup = () => {
+      clearInterval(interval);
+      window.removeEventListener('online', handleOnline);
+      unsubscribe();
+      if (pushTimeout) clearTimeout(pushTimeout);
+    };
+  };
+
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    // Hold the lock for as long as this tab syncs; the next tab takes over when it closes
+    navigator.locks.request(SYNC_LOCK, () => new Promise<void>(resolve => {
+      releaseLock = resolve;
+      if (isStopped) {
+        resolve();
+        return;
+      }
+      run();
+    }));
+  } else {
+    run();
+  }
+
+  return () => {
+    isStopped = true;
+    cleanup?.();
+    releaseLock?.();
+  };
+};
@@ -0,0 +1,37 @@
+import type { SyncCollection, SyncRecord } from '../types/sync';
+import { preferencesSchema, sessionSchema, timerConfigSchema, validateRecord } from './validation';
+
+// Sync record rules shared by the server store and the client sync layer.
+
+// Last writer wins; the device id breaks ties so both sides pick the same record
+export const isNewerRecord = (a: SyncRecord, b: SyncRecord): boolean => {
+  if (a.updatedAt !== b.updatedAt) {
+    return a.updatedAt > b.updatedAt;
+  }
+  return a.deviceId > b.deviceId;
+};
+
+const isValidValue = (collection: SyncCollection, value: unknown): boolean => {
+  switch (collection) {
+    case 'sessions':
+      return validateRecord(value, sessionSchema).valid;
+    case 'config':
+      return validateRecord(value, timerConfigSchema).valid;
+    case 'preferences':
+      return validateRecord(value, preferencesSchema).valid;
+  }
+};
+
+// Records are kept in objects keyed by id, where these names would reach the prototype
+const RESERVED_IDS = new Set(['__proto__', 'constructor', 'prototype']);
+
+// Check a record received over the network
+export const isValidSyncRecord = (collection: SyncCollection, record: unknown): record is SyncRecord => {
+  if (typeof record !== 'object' || record === null) return false;
+  const { id, value, updatedAt, deviceId, version } = record as Record<string, unknown>;
+  return typeof id === 'string' && id.length > 0 && !RESERVED_IDS.has(id) &&
+    typeof updatedAt === 'string' && !Number.isNaN(Date.parse(updatedAt)) &&
+    typeof deviceId === 'string' &&
+    typeof version === 'number' &&
+    (value === null || isValidValue(collection, value));
+};
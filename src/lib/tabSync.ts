@@ -0,0 +1,250 @@
+import { Interruption, TimerState } from '../types/timer';
+
+// Tabs coordinate so that only one of them (the leader) owns the countdown
+// and writes sessions. Leadership is a Web Lock held for as long as the tab is
+// open, so background timer throttling cannot take it away; browsers without
+// locks fall back to a lease in localStorage renewed on a heartbeat. The other
+// tabs mirror the state the leader broadcasts and send their control commands
+// to it.
+
+export type TimerCommand =
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'reset'
+  | 'skip'
+  | 'stop'
+  | 'extend'
+  | 'cancelAutoStart'
+  | 'interrupt'
+  | 'applyPreset';
+
+// Extra data carried by some commands
+export interface TimerCommandData {
+  interruption?: Interruption;
+  duration?: number;  // Shortened phase length for 'start', or time to add for 'extend', in seconds
+  presetId?: string;  // Preset to switch to for 'applyPreset'
+  restart?: boolean;  // Restart the running phase with the preset instead of waiting for the next one
+}
+
+type SyncMessage =
+  | { type: 'state'; from: string; state: TimerState }
+  | { type: 'command'; from: string; command: TimerCommand; data?: TimerCommandData }
+  | { type: 'stateRequest'; from: string }
+  | { type: 'resign'; from: string };
+
+interface LeaderLease {
+  tabId: string;
+  expiresAt: number;  // Epoch milliseconds
+}
+
+export interface TabSyncHandlers {
+  onLeadershipChange: (isLeader: boolean) => void;
+  onState: (state: TimerState) => void;
+  onCommand: (command: TimerCommand, data?: TimerCommandData) => void;
+  onStateRequest: () => void;
+}
+
+const CHANNEL_NAME = 'pomodoro_sync';
+const LEADER_LOCK = 'pomodoro_tab_leader';
+const LEADER_KEY = 'pomodoro_tab_leader';
+const MESSAGE_KEY = 'pomodoro_tab_message';
+
+// Lease timing in milliseconds, for browsers without Web Locks
+const HEARTBEAT_INTERVAL = 1000;
+const LEASE_DURATION = 5000;
+
+const tabId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+  ? crypto.randomUUID()
+  : Math.random().toString(36).slice(2);
+
+let channel: BroadcastChannel | null = null;
+let handlers: TabSyncHandlers | null = null;
+let heartbeat: ReturnType<typeof setInterval> | null = null;
+let releaseLock: (() => void) | null = null;
+let lockRequest = 0;  // Bumped on resign so a request still waiting for the lock is dropped
+let isLeader = false;
+
+const hasLocks = () => typeof navigator !== 'undefined' && !!navigator.locks;
+
+// Read the current leader lease
+const readLease = (): LeaderLease | null => {
+  try {
+    const lease = localStorage.getItem(LEADER_KEY);
+    return lease ? JSON.parse(lease) : null;
+  } catch (error) {
+    console.error('Error reading tab leader lease:', error);
+    return null;
+  }
+};
+
+// Write a lease for this tab
+const writeLease = () => {
+  try {
+    localStorage.setItem(LEADER_KEY, JSON.stringify({
+      tabId,
+      expiresAt: Date.now() + LEASE_DURATION
+    }));
+  } catch (error) {
+    console.error('Error writing tab leader lease:', error);
+  }
+};
+
+const setLeader = (leader: boolean) => {
+  if (leader === isLeader) return;
+  isLeader = leader;
+  handlers?.onLeadershipChange(leader);
+};
+
+// Claim the lease if it is free or expired, renew it if it is ours
+const checkLeadership = () => {
+  const lease = readLease();
+  if (!lease || lease.tabId === tabId || lease.expiresAt < Date.now()) {
+    writeLease();
+    // Another tab may have written at the same moment; the last write wins
+    setLeader(readLease()?.tabId === tabId);
+  } else {
+    setLeader(false);
+  }
+};
+
+const handleMessage = (message: SyncMessage) => {
+  if (!handlers || message.from === tabId) return;
+
+  switch (message.type) {
+    case 'state':
+      if (!isLeader) handlers.onState(message.state);
+      break;
+    case 'command':
+      if (isLeader) handlers.onCommand(message.command, message.data);
+      break;
+    case 'stateRequest':
+      if (isLeader) handlers.onStateRequest();
+      break;
+    case 'resign':
+      // Lock holders are handed over by the browser
+      if (!hasLocks()) checkLeadership();
+      break;
+  }
+};
+
+// Fallback transport for browsers without BroadcastChannel
+const handleStorageEvent = (event: StorageEvent) => {
+  if (event.key !== MESSAGE_KEY || !event.newValue) return;
+  try {
+    handleMessage(JSON.parse(event.newValue).message);
+  } catch (error) {
+    console.error('Error reading tab sync message:', error);
+  }
+};
+
+const postMessage = (message: SyncMessage) => {
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+  try {
+    // The nonce makes every write a change, so a storage event always fires
+    localStorage.setItem(MESSAGE_KEY, JSON.stringify({ message, nonce: Math.random() }));
+  } catch (error) {
+    console.error('Error sending tab sync message:', error);
+  }
+};
+
+// Wait for the leader lock and hold it until the tab resigns or closes
+const requestLeaderLock = () => {
+  const request = ++lockRequest;
+  navigator.locks.request(LEADER_LOCK, () => new Promise<void>(resolve => {
+    if (!handlers || request !== lockRequest) {
+      resolve();
+      return;
+    }
+    releaseLock = resolve;
+    setLeader(true);
+  })).catch(error => console.error('Error requesting tab leader lock:', error));
+};
+
+// Give up leadership so another tab can take over immediately
+const resign = () => {
+  lockRequest += 1;
+  if (releaseLock) {
+    releaseLock();
+    releaseLock = null;
+  }
+  if (!isLeader) return;
+  if (!hasLocks() && readLease()?.tabId === tabId) {
+    try {
+      localStorage.removeItem(LEADER_KEY);
+    } catch (error) {
+      console.error('Error releasing tab leader lease:', error);
+    }
+  }
+  isLeader = false;
+  postMessage({ type: 'resign', from: tabId });
+};
+
+// A page restored from the back/forward cache queues for the lock again
+const handlePageShow = (event: PageTransitionEvent) => {
+  if (event.persisted && hasLocks()) requestLeaderLock();
+};
+
+// Start coordinating with other tabs
+export const initializeTabSync = (syncHandlers: TabSyncHandlers) => {
+  if (typeof window === 'undefined') return;
+  handlers = syncHandlers;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => handleMessage(event.data);
+  } else {
+    window.addEventListener('storage', handleStorageEvent);
+  }
+  window.addEventListener('pagehide', resign);
+  window.addEventListener('pageshow', handlePageShow);
+
+  if (hasLocks()) {
+    requestLeaderLock();
+  } else {
+    checkLeadership();
+    heartbeat = setInterval(checkLeadership, HEARTBEAT_INTERVAL);
+  }
+
+  // Only the leader answers, so this does nothing if this tab is about to lead
+  postMessage({ type: 'stateRequest', from: tabId });
+};
+
+// Stop coordinating and hand leadership to another tab
+export const cleanupTabSync = () => {
+  if (typeof window === 'undefined') return;
+  resign();
+  if (heartbeat) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+  if (channel) {
+    channel.close();
+    channel = null;
+  }
+  window.removeEventListener('storage', handleStorageEvent);
+  window.removeEventListener('pagehide', resign);
+  window.removeEventListener('pageshow', handlePageShow);
+  handlers = null;
+};
+
+// Check if this tab owns the countdown. Without locks the lease is
+// revalidated first so a throttled tab that lost it does not act as leader.
+export const confirmLeadership = () => {
+  if (handlers && !hasLocks()) checkLeadership();
+  return isLeader;
+};
+
+// Mirror the leader's timer state to the other tabs
+export const broadcastTimerState = (state: TimerState) => {
+  if (!isLeader) return;
+  postMessage({ type: 'state', from: tabId, state });
+};
+
+// Ask the leader tab to run a control command
+export const sendTimerCommand = (command: TimerCommand, data?: TimerCommandData) => {
+  postMessage({ type: 'command', from: tabId, command, data });
+};
@@ -0,0 +1,594 @@
+import {
+  FlowtimeConfig,
+  Interruption,
+  PhaseDefinition,
+  SessionOutcome,
+  TimerConfig,
+  TimerMode,
+  TimerPhase,
+  TimerState,
+  UserPreferences
+} from '../types/timer';
+
+// The engine never counts ticks. A running phase stores its end time as an
+// absolute timestamp and the remaining time is derived from the clock, so
+// throttled intervals or a sleeping laptop cannot stretch a session.
+
+// A config either runs the classic cycle (focus and break, with a long break
+// every few sessions) or a custom sequence of phases. A custom phase is
+// tracked by its position in the sequence, and its kind is focus when it
+// counts as focus and break otherwise.
+
+// How the classic phases look and sound
+const CLASSIC_PHASES: Record<TimerPhase, Omit<PhaseDefinition, 'duration'>> = {
+  focus: { id: 'focus', name: 'Focus', color: 'blue', sound: 'high', countsAsFocus: true },
+  break: { id: 'break', name: 'Break', color: 'green', sound: 'medium', countsAsFocus: false },
+  longBreak: { id: 'longBreak', name: 'Long break', color: 'purple', sound: 'low', countsAsFocus: false }
+};
+
+const getClassicMinutes = (config: TimerConfig, phase: TimerPhase): number => {
+  switch (phase) {
+    case 'focus':
+      return config.focusDuration;
+    case 'break':
+      return config.breakDuration;
+    case 'longBreak':
+      return config.longBreakDuration;
+    default:
+      return config.focusDuration;
+  }
+};
+
+// Flowtime alternates focus and earned breaks. Focus counts up from zero and
+// the break that follows is worked out from how long it ran.
+
+// Breaks of a fifth of the focus time, at most half an hour
+export const DEFAULT_FLOWTIME: FlowtimeConfig = {
+  breakRule: 'ratio',
+  breakRatio: 5,
+  breakTable: [
+    { focusMinutes: 25, breakMinutes: 5 },
+    { focusMinutes: 50, breakMinutes: 8 },
+    { focusMinutes: 90, breakMinutes: 10 },
+    { focusMinutes: 120, breakMinutes: 15 }
+  ],
+  maxBreak: 30,
+  target: 0
+};
+
+export const getTimerMode = (config: TimerConfig): TimerMode => config.mode ?? 'pomodoro';
+
+export const getFlowtimeConfig = (config: TimerConfig): FlowtimeConfig => config.flowtime ?? DEFAULT_FLOWTIME;
+
+// Break in seconds earned by a focus phase of the given length
+export const getEarnedBreak = (config: TimerConfig, focusSeconds: number): number => {
+  const { breakRule, breakRatio, breakTable, maxBreak } = getFlowtimeConfig(config);
+  let seconds: number;
+  if (breakRule === 'table' && breakTable.length > 0) {
+    const steps = [...breakTable].sort((a, b) => a.focusMinutes - b.focusMinutes);
+    const step = steps.find(candidate => focusSeconds <= candidate.focusMinutes * 60) ?? steps[steps.length - 1];
+    seconds = step.breakMinutes * 60;
+  } else {
+    seconds = focusSeconds / Math.max(1, breakRatio);
+  }
+  if (maxBreak > 0) {
+    seconds = Math.min(seconds, maxBreak * 60);
+  }
+  return Math.max(1, Math.round(seconds));
+};
+
+// Custom sequence of the config, or null for the classic cycle. Flowtime
+// does not use the sequence.
+export const getSequence = (config: TimerConfig): PhaseDefinition[] | null => {
+  if (getTimerMode(config) === 'flowtime') return null;
+  return config.sequence && config.sequence.length > 0 ? config.sequence : null;
+};
+
+// One classic cycle written out as a sequence, as a starting point for editing
+export const getClassicSequence = (config: TimerConfig): PhaseDefinition[] => {
+  const sessions = Math.max(1, config.sessionsUntilLongBreak);
+  return Array.from({ length: sessions }, (_, session) => {
+    const breakPhase: TimerPhase = session === sessions - 1 ? 'longBreak' : 'break';
+    return [
+      { ...CLASSIC_PHASES.focus, id: `focus-${session + 1}`, duration: config.focusDuration },
+      { ...CLASSIC_PHASES[breakPhase], id: `${breakPhase}-${session + 1}`, duration: getClassicMinutes(config, breakPhase) }
+    ];
+  }).flat();
+};
+
+const getPhaseKind = (definition: PhaseDefinition): TimerPhase => {
+  return definition.countsAsFocus ? 'focus' : 'break';
+};
+
+// Definition of a phase; the index picks the phase of a custom sequence
+export const getPhaseDefinition = (config: TimerConfig, phase: TimerPhase, phaseIndex = 0): PhaseDefinition => {
+  const sequence = getSequence(config);
+  if (sequence) return sequence[phaseIndex % sequence.length];
+  return { ...CLASSIC_PHASES[phase], duration: getClassicMinutes(config, phase) };
+};
+
+// Definition of the phase the timer is in
+export const getCurrentPhaseDefinition = (state: TimerState, config: TimerConfig): PhaseDefinition => {
+  return getPhaseDefinition(config, state.currentPhase, state.phaseIndex);
+};
+
+// Get phase duration in seconds
+export const getPhaseDuration = (config: TimerConfig, phase: TimerPhase, phaseIndex = 0): number => {
+  return Math.round(getPhaseDefinition(config, phase, phaseIndex).duration * 60);
+};
+
+// Planned length of the current phase in seconds, allowing for a shortened
+// phase or an earned break. For count-up focus this is the soft target, 0 without one.
+export const getPlannedDuration = (state: TimerState, config: TimerConfig): number => {
+  if (state.phaseDuration !== undefined) return state.phaseDuration;
+  if (state.countUp) return Math.round(getFlowtimeConfig(config).target * 60);
+  return getPhaseDuration(config, state.currentPhase, state.phaseIndex);
+};
+
+// Preset the current phase runs under, or null for custom durations
+export const getPhasePresetId = (state: TimerState, config: TimerConfig): string | null => {
+  return state.presetId !== undefined ? state.presetId : config.presetId ?? null;
+};
+
+// Keep a running phase on the config it was started with when the config is
+// about to change, so the change applies from the next phase. Count-up focus
+// has no length to keep.
+export const keepPhaseConfig = (state: TimerState, config: TimerConfig): TimerState => {
+  if (!state.isRunning) return state;
+  return {
+    ...state,
+    ...(state.countUp ? {} : { phaseDuration: getPlannedDuration(state, config) }),
+    presetId: getPhasePresetId(state, config)
+  };
+};
+
+// Phase kind and sequence position of the phase after the current one. A
+// skipped focus phase does not count towards the long break, so a short break follows it.
+const getNextPosition = (
+  state: TimerState,
+  config: TimerConfig,
+  skipped = false
+): { phase: TimerPhase; phaseIndex: number } => {
+  const sequence = getSequence(config);
+  if (sequence) {
+    const phaseIndex = ((state.phaseIndex ?? 0) + 1) % sequence.length;
+    return { phase: getPhaseKind(sequence[phaseIndex]), phaseIndex };
+  }
+  if (state.currentPhase !== 'focus') return { phase: 'focus', phaseIndex: 0 };
+  if (skipped || getTimerMode(config) === 'flowtime') return { phase: 'break', phaseIndex: 0 };
+  const phase = (state.completedSessions + 1) % config.sessionsUntilLongBreak === 0
+    ? 'longBreak'
+    : 'break';
+  return { phase, phaseIndex: 0 };
+};
+
+// Work out which phase follows the current one
+export const getNextPhase = (state: TimerState, config: TimerConfig, skipped = false): TimerPhase => {
+  return getNextPosition(state, config, skipped).phase;
+};
+
+// Definition of the phase that follows the current one
+export const getNextPhaseDefinition = (state: TimerState, config: TimerConfig): PhaseDefinition => {
+  const { phase, phaseIndex } = getNextPosition(state, config);
+  return getPhaseDefinition(config, phase, phaseIndex);
+};
+
+// Create an idle state at the start of a phase. In a custom sequence the
+// phase kind follows from the phase at the index; Flowtime focus counts up.
+export const createTimerState = (
+  config: TimerConfig,
+  completedSessions = 0,
+  phase: TimerPhase = 'focus',
+  phaseIndex = 0
+): TimerState => {
+  const sequence = getSequence(config);
+  const index = sequence ? phaseIndex % sequence.length : 0;
+  const currentPhase = sequence ? getPhaseKind(sequence[index]) : phase;
+  const countUp = getTimerMode(config) === 'flowtime' && currentPhase === 'focus';
+  return {
+    isRunning: false,
+    isPaused: false,
+    currentPhase,
+    timeRemaining: countUp ? 0 : getPhaseDuration(config, currentPhase, index),
+    completedSessions,
+    phaseStartTime: null,
+    phaseEndTime: null,
+    pausedAt: null,
+    totalPausedTime: 0,
+    pauseCount: 0,
+    autoStartAt: null,
+    autoStartedPomodoros: 0,
+    interruptions: [],
+    ...(sequence ? { phaseIndex: index } : {}),
+    ...(countUp ? { countUp, timeElapsed: 0 } : {})
+  };
+};
+
+// Fit an idle timer to a changed config, keeping its place in the cycle
+export const alignTimerState = (state: TimerState, config: TimerConfig): TimerState => {
+  if (state.isRunning) return state;
+  return {
+    ...createTimerState(config, state.completedSessions, state.currentPhase, state.phaseIndex),
+    autoStartAt: state.autoStartAt,
+    autoStartedPomodoros: state.autoStartedPomodoros
+  };
+};
+
+// Remaining whole seconds at the given time
+export const getTimeRemaining = (state: TimerState, now: number): number => {
+  if (!state.isRunning || state.phaseEndTime === null) return state.timeRemaining;
+  const reference = state.isPaused && state.pausedAt !== null ? state.pausedAt : now;
+  return Math.max(0, Math.ceil((state.phaseEndTime - reference) / 1000));
+};
+
+// Whole seconds counted by a count-up phase at the given time, excluding pauses
+export const getTimeElapsed = (state: TimerState, now: number): number => {
+  if (!state.isRunning || state.phaseStartTime === null) return state.timeElapsed ?? 0;
+  const reference = state.isPaused && state.pausedAt !== null ? state.pausedAt : now;
+  return Math.max(0, Math.floor((reference - state.phaseStartTime - state.totalPausedTime) / 1000));
+};
+
+// Check whether the running phase has reached its end time. A phase in
+// overtime has already passed it and waits for the user.
+export const isPhaseExpired = (state: TimerState, now: number): boolean => {
+  return state.isRunning
+    && !state.isPaused
+    && !state.inOvertime
+    && state.phaseEndTime !== null
+    && now >= state.phaseEndTime;
+};
+
+// Overtime lets focus run past zero until the user confirms the break, up to
+// an optional limit after which the break starts anyway.
+
+// Whether a phase reaching zero goes into overtime instead of ending
+export const allowsOvertime = (state: TimerState, preferences: UserPreferences): boolean => {
+  return preferences.overtime && state.currentPhase === 'focus' && !state.countUp;
+};
+
+// Whole seconds past the planned end at the given time, excluding pauses
+export const getOvertime = (state: TimerState, now: number): number => {
+  if (!state.inOvertime || state.phaseEndTime === null) return 0;
+  const reference = state.isPaused && state.pausedAt !== null ? state.pausedAt : now;
+  return Math.max(0, Math.floor((reference - state.phaseEndTime) / 1000));
+};
+
+// Keep an expired phase running as overtime
+export const enterOvertime = (state: TimerState, now: number): TimerState => {
+  if (state.inOvertime) return state;
+  const overtimeState = { ...state, inOvertime: true, timeRemaining: 0 };
+  return { ...overtimeState, timeOvertime: getOvertime(overtimeState, now) };
+};
+
+// Time the overtime limit is reached, or null without a limit
+const getOvertimeLimit = (state: TimerState, preferences: UserPreferences): number | null => {
+  if (state.phaseEndTime === null || preferences.maxOvertime <= 0) return null;
+  return state.phaseEndTime + preferences.maxOvertime * 60 * 1000;
+};
+
+// Check whether running overtime has reached its limit
+export const isOvertimeOver = (state: TimerState, now: number, preferences: UserPreferences): boolean => {
+  const limit = getOvertimeLimit(state, preferences);
+  return Boolean(state.inOvertime) && !state.isPaused && limit !== null && now >= limit;
+};
+
+// Add time to the current phase, running or not. Count-up focus and overtime
+// have no end to move.
+export const extendPhase = (state: TimerState, config: TimerConfig, seconds: number): TimerState => {
+  if (state.countUp || state.inOvertime || seconds <= 0) return state;
+  return {
+    ...state,
+    timeRemaining: state.timeRemaining + seconds,
+    phaseEndTime: state.phaseEndTime === null ? null : state.phaseEndTime + seconds * 1000,
+    phaseDuration: getPlannedDuration(state, config) + seconds,
+    extension: (state.extension ?? 0) + seconds
+  };
+};
+
+// Start the current phase from its remaining time
+export const startTimer = (state: TimerState, now: number): TimerState => {
+  if (state.isRunning) return state;
+  return {
+    ...state,
+    isRunning: true,
+    isPaused: false,
+    phaseStartTime: now,
+    phaseEndTime: state.countUp ? null : now + state.timeRemaining * 1000,
+    pausedAt: null,
+    totalPausedTime: 0,
+    pauseCount: 0,
+    autoStartAt: null
+  };
+};
+
+// Record the task a running focus phase is for. It is set once, when the
+// phase starts, so switching tasks later does not move the phase to another task.
+export const assignTask = (state: TimerState, taskId: string | null): TimerState => {
+  if (!state.isRunning || state.currentPhase !== 'focus' || state.taskId !== undefined) return state;
+  return { ...state, taskId };
+};
+
+// Cut the current phase short before it starts, e.g. to end before a meeting
+export const shortenPhase = (state: TimerState, duration: number): TimerState => {
+  if (state.isRunning || state.countUp) return state;
+  const timeRemaining = Math.max(1, Math.min(state.timeRemaining, Math.round(duration)));
+  return { ...state, timeRemaining, phaseDuration: timeRemaining };
+};
+
+// Pause the running phase, freezing the remaining time
+export const pauseTimer = (state: TimerState, now: number): TimerState => {
+  if (!state.isRunning || state.isPaused) return state;
+  return {
+    ...state,
+    isPaused: true,
+    pausedAt: now,
+    pauseCount: state.pauseCount + 1,
+    timeRemaining: getTimeRemaining(state, now),
+    ...(state.countUp ? { timeElapsed: getTimeElapsed(state, now) } : {}),
+    ...(state.inOvertime ? { timeOvertime: getOvertime(state, now) } : {})
+  };
+};
+
+// Resume a paused phase, pushing the end time back by the pause length
+export const resumeTimer = (state: TimerState, now: number): TimerState => {
+  if (!state.isRunning || !state.isPaused || state.pausedAt === null) return state;
+  if (state.phaseEndTime === null && !state.countUp) return state;
+  const pausedFor = Math.max(0, now - state.pausedAt);
+  return {
+    ...state,
+    isPaused: false,
+    pausedAt: null,
+    phaseEndTime: state.phaseEndTime === null ? null : state.phaseEndTime + pausedFor,
+    totalPausedTime: state.totalPausedTime + pausedFor
+  };
+};
+
+// Stop the timer and restore the full duration of the current phase
+export const resetTimer = (state: TimerState, config: TimerConfig): TimerState => {
+  return createTimerState(config, state.completedSessions, state.currentPhase, state.phaseIndex);
+};
+
+// Recompute the remaining time, the elapsed time of a count-up phase or the
+// overtime from the clock
+export const tickTimer = (state: TimerState, now: number): TimerState => {
+  if (state.countUp) {
+    const timeElapsed = getTimeElapsed(state, now);
+    return timeElapsed === state.timeElapsed ? state : { ...state, timeElapsed };
+  }
+  if (state.inOvertime) {
+    const timeOvertime = getOvertime(state, now);
+    return timeOvertime === state.timeOvertime ? state : { ...state, timeOvertime };
+  }
+  const timeRemaining = getTimeRemaining(state, now);
+  if (timeRemaining === state.timeRemaining) return state;
+  return { ...state, timeRemaining };
+};
+
+// Log an interruption against the running focus phase
+export const addInterruption = (state: TimerState, interruption: Interruption): TimerState => {
+  if (!state.isRunning || state.currentPhase !== 'focus') return state;
+  return { ...state, interruptions: [...state.interruptions, interruption] };
+};
+
+// Options for starting the phase that follows a completed one
+export interface AutoStartOptions {
+  autoStart: boolean;
+  autoStartDelay: number;  // Delay in seconds before the phase starts
+}
+
+// Decide whether the next phase starts by itself, honoring the auto-start
+// preferences and the limit on pomodoros auto-started in a row
+export const getAutoStartOptions = (
+  state: TimerState,
+  nextPhase: TimerPhase,
+  preferences: UserPreferences
+): AutoStartOptions => {
+  const withinLimit = preferences.maxAutoStartPomodoros <= 0
+    || state.autoStartedPomodoros < preferences.maxAutoStartPomodoros;
+  const autoStart = nextPhase === 'focus'
+    ? preferences.autoStartPomodoros && withinLimit
+    : preferences.autoStartBreaks;
+  return { autoStart, autoStartDelay: preferences.autoStartCountdown };
+};
+
+// Move to the next phase. A break after count-up focus lasts as long as the
+// focus earned; a skipped focus phase is not counted.
+const advancePhase = (
+  state: TimerState,
+  config: TimerConfig,
+  now: number,
+  options: Partial<AutoStartOptions>,
+  skipped: boolean
+): TimerState => {
+  const { phase: nextPhase, phaseIndex } = getNextPosition(state, config, skipped);
+  const completedSessions = state.currentPhase === 'focus' && !skipped
+    ? state.completedSessions + 1
+    : state.completedSessions;
+  const initialState = createTimerState(config, completedSessions, nextPhase, phaseIndex);
+  const earnedBreak = state.countUp && !initialState.countUp
+    ? getEarnedBreak(config, getTimeElapsed(state, now))
+    : null;
+  const nextState: TimerState = {
+    ...initialState,
+    ...(earnedBreak !== null ? { timeRemaining: earnedBreak, phaseDuration: earnedBreak } : {}),
+    // A focus phase that has to be started by hand resets the auto-start run
+    autoStartedPomodoros: nextPhase === 'focus'
+      ? (options.autoStart ? state.autoStartedPomodoros + 1 : 0)
+      : state.autoStartedPomodoros
+  };
+
+  if (!options.autoStart) return nextState;
+  const delay = Math.max(0, options.autoStartDelay ?? 0) * 1000;
+  return delay > 0
+    ? { ...nextState, autoStartAt: now + delay }
+    : startTimer(nextState, now);
+};
+
+// Finish the current phase and move to the next one
+export const completePhase = (
+  state: TimerState,
+  config: TimerConfig,
+  now: number,
+  options: Partial<AutoStartOptions> = {}
+): TimerState => advancePhase(state, config, now, options, false);
+
+// Leave the current phase without finishing it
+export const skipPhase = (
+  state: TimerState,
+  config: TimerConfig,
+  now: number,
+  options: Partial<AutoStartOptions> = {}
+): TimerState => advancePhase(state, config, now, options, true);
+
+// Start a pending phase once its auto-start countdown has run out
+export const startPendingPhase = (state: TimerState, now: number): TimerState => {
+  if (state.autoStartAt === null || now < state.autoStartAt) return state;
+  return startTimer(state, state.autoStartAt);
+};
+
+// Cancel a pending auto-start and leave the phase waiting for the user
+export const cancelAutoStart = (state: TimerState): TimerState => {
+  if (state.autoStartAt === null) return state;
+  return { ...state, autoStartAt: null, autoStartedPomodoros: 0 };
+};
+
+// A started phase as it is recorded in the session history
+export interface PhaseRecord {
+  phase: TimerPhase;
+  outcome: SessionOutcome;
+  startTime: number;  // Epoch milliseconds
+  endTime: number;  // Epoch milliseconds
+  duration: number;  // Time actually spent in the phase, excluding pauses, in seconds
+  plannedDuration: number;  // Configured or shortened duration in seconds
+  pausedTime: number;  // Time spent paused in seconds
+  pauseCount: number;
+  interruptions: Interruption[];
+  presetId: string | null;
+  phaseName: string | null;  // Name of a custom phase
+  mode: TimerMode;
+  overtime: number;  // Seconds past the planned end, not included in duration
+  extension: number;  // Seconds added during the phase, included in plannedDuration
+  endedEarly: boolean;  // Completed before its planned end
+  taskId: string | null;  // Task of a focus phase
+}
+
+// Describe the current phase as ended at the given time, or null if it never started
+export const getPhaseRecord = (
+  state: TimerState,
+  config: TimerConfig,
+  now: number,
+  outcome: SessionOutcome
+): PhaseRecord | null => {
+  const startTime = state.isRunning ? state.phaseStartTime : null;
+  // A break skipped before it started is still recorded, so skipped breaks can be counted
+  if (startTime === null && (outcome !== 'skipped' || state.currentPhase === 'focus')) return null;
+  if (startTime !== null && state.phaseEndTime === null && !state.countUp) return null;
+
+  // Count-up phases and overtime end whenever they are stopped, other phases
+  // at their end time at the latest
+  const endTime = startTime === null || state.phaseEndTime === null || state.inOvertime
+    ? now
+    : Math.min(now, state.phaseEndTime);
+  const currentPause = state.isPaused && state.pausedAt !== null ? Math.max(0, endTime - state.pausedAt) : 0;
+  const pausedTime = state.totalPausedTime + currentPause;
+  const timeSpent = Math.max(0, Math.round((endTime - (startTime ?? now) - pausedTime) / 1000));
+  // Count-up focus has no fixed length, so the time spent is what was planned
+  const plannedDuration = state.countUp ? timeSpent : getPlannedDuration(state, config);
+
+  return {
+    phase: state.currentPhase,
+    outcome,
+    startTime: startTime ?? now,
+    endTime,
+    duration: Math.min(plannedDuration, timeSpent),
+    plannedDuration,
+    pausedTime: Math.round(pausedTime / 1000),
+    pauseCount: state.pauseCount,
+    interruptions: state.interruptions,
+    presetId: getPhasePresetId(state, config),
+    phaseName: getSequence(config) ? getCurrentPhaseDefinition(state, config).name : null,
+    mode: state.countUp || getTimerMode(config) === 'flowtime' ? 'flowtime' : 'pomodoro',
+    overtime: getOvertime(state, endTime),
+    extension: state.extension ?? 0,
+    endedEarly: outcome === 'completed' && !state.inOvertime && state.phaseEndTime !== null && endTime < state.phaseEndTime,
+    taskId: state.currentPhase === 'focus' ? state.taskId ?? null : null
+  };
+};
+
+// Finish every phase whose end time passed while the timer was not being
+// ticked (page closed, browser restarted). Auto-started breaks begin at the
+// end time of the phase before them, not at the time of the catch-up. Focus
+// that would have auto-started while no tab was open waits for the user
+// instead, so a timer left overnight does not record cycles nobody worked.
+// Focus that may run over goes into overtime, which ends at its limit.
+export const catchUpTimer = (
+  state: TimerState,
+  config: TimerConfig,
+  now: number,
+  preferences: UserPreferences
+): { state: TimerState; elapsed: PhaseRecord[] } => {
+  const elapsed: PhaseRecord[] = [];
+  let current = state;
+
+  while (true) {
+    if (current.autoStartAt !== null && now >= current.autoStartAt) {
+      current = current.currentPhase === 'focus'
+        ? cancelAutoStart(current)
+        : startPendingPhase(current, now);
+      continue;
+    }
+    if (isPhaseExpired(current, now) && allowsOvertime(current, preferences)) {
+      current = enterOvertime(current, now);
+      continue;
+    }
+    const overtimeLimit = getOvertimeLimit(current, preferences);
+    const record = isPhaseExpired(current, now)
+      ? getPhaseRecord(current, config, now, 'completed')
+      : isOvertimeOver(current, now, preferences) && overtimeLimit !== null
+      ? getPhaseRecord(current, config, overtimeLimit, 'completed')
+      : null;
+    if (!record) {
+      break;
+    }
+    elapsed.push(record);
+    const nextPhase = getNextPhase(current, config);
+    const options = getAutoStartOptions(current, nextPhase, preferences);
+    const startsAt = record.endTime + Math.max(0, options.autoStartDelay) * 1000;
+    current = completePhase(current, config, record.endTime, {
+      ...options,
+      autoStart: options.autoStart && (nextPhase !== 'focus' || startsAt > now)
+    });
+  }
+
+  return { state: tickTimer(current, now), elapsed };
+};
+
+// Focus blocks the running timer will reach if each phase starts as soon as the
+// one before it ends, up to the next long break or through one pass of a custom
+// sequence. Paused or idle timers have no plan.
+export const getPlannedFocusBlocks = (
+  state: TimerState,
+  config: TimerConfig
+): { start: number; end: number }[] => {
+  if (!state.isRunning || state.isPaused || state.phaseStartTime === null || state.phaseEndTime === null) {
+    return [];
+  }
+
+  const blocks = state.currentPhase === 'focus'
+    ? [{ start: state.phaseStartTime, end: state.phaseEndTime }]
+    : [];
+  const sequence = getSequence(config);
+  const cycleLength = sequence ? sequence.length : config.sessionsUntilLongBreak * 2;
+  let current = state;
+  let time = state.phaseEndTime;
+  for (let step = 1; step < cycleLength; step++) {
+    if (!sequence && current.currentPhase === 'longBreak') break;
+    current = completePhase(current, config, time);
+    const duration = getPhaseDuration(config, current.currentPhase, current.phaseIndex) * 1000;
+    if (current.currentPhase === 'focus') {
+      blocks.push({ start: time, end: time + duration });
+    }
+    time += duration;
+  }
+  return blocks;
+};
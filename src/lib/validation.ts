@@ -0,0 +1,288 @@
+import type {
+  FlowtimeBreakStep,
+  FlowtimeConfig,
+  FocusGoals,
+  Interruption,
+  PhaseDefinition,
+  Subscription,
+  SubscriptionTrial,
+  Task,
+  TimerConfig,
+  TimerPreset,
+  TimerState,
+  UserPreferences
+} from '../types/timer';
+import type { SyncState } from '../types/sync';
+import type { PlannedBlock, StoredCalendar } from '../types/calendar';
+import type { BackupSnapshot, Profile, SessionData, Statistics } from './storage';
+
+// Runtime validators for everything read from storage or imported from a
+// backup. Records (sessions, tasks, the running timer) are all-or-nothing;
+// settings keep their valid fields and report the rest.
+
+type Check = (value: unknown) => boolean;
+
+// A check for every field of T
+export type Schema<T> = { [K in keyof T]-?: Check };
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isString: Check = value => typeof value === 'string';
+const isBoolean: Check = value => typeof value === 'boolean';
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+const isNonNegative: Check = value => isNumber(value) && (value as number) >= 0;
+const isDate: Check = value => isString(value) && !Number.isNaN(Date.parse(value as string));
+const isOneOf = (...options: unknown[]): Check => value => options.includes(value);
+const isNullable = (check: Check): Check => value => value === null || check(value);
+const isOptional = (check: Check): Check => value => value === undefined || check(value);
+const isArrayOf = (check: Check): Check => value => Array.isArray(value) && value.every(check);
+const isPhase = isOneOf('focus', 'break', 'longBreak');
+
+const interruptionSchema: Schema<Interruption> = {
+  timestamp: isDate,
+  type: isOneOf('internal', 'external'),
+  note: isOptional(isString)
+};
+
+export const sessionSchema: Schema<SessionData> = {
+  id: isString,
+  startTime: isDate,
+  endTime: isDate,
+  phase: isPhase,
+  outcome: isOneOf('completed', 'abandoned', 'skipped'),
+  completed: isBoolean,
+  duration: isNonNegative,
+  plannedDuration: isNonNegative,
+  pausedTime: isNonNegative,
+  pauseCount: isNonNegative,
+  taskId: isOptional(isNullable(isString)),
+  presetId: isOptional(isNullable(isString)),
+  phaseName: isOptional(isString),
+  mode: isOptional(isOneOf('pomodoro', 'flowtime')),
+  overtime: isOptional(isNonNegative),
+  extension: isOptional(isNonNegative),
+  endedEarly: isOptional(isBoolean),
+  interruptions: isOptional(isArrayOf(value => validateRecord(value, interruptionSchema).valid))
+};
+
+export const taskSchema: Schema<Task> = {
+  id: isString,
+  title: isString,
+  notes: isString,
+  estimatedPomodoros: isNonNegative,
+  completed: isBoolean,
+  order: isNumber,
+  createdAt: isDate
+};
+
+export const timerStateSchema: Schema<TimerState> = {
+  isRunning: isBoolean,
+  isPaused: isBoolean,
+  currentPhase: isPhase,
+  timeRemaining: isNonNegative,
+  completedSessions: isNonNegative,
+  phaseStartTime: isNullable(isNumber),
+  phaseEndTime: isNullable(isNumber),
+  pausedAt: isNullable(isNumber),
+  totalPausedTime: isNonNegative,
+  pauseCount: isNonNegative,
+  autoStartAt: isNullable(isNumber),
+  autoStartedPomodoros: isNonNegative,
+  interruptions: sessionSchema.interruptions,
+  phaseDuration: isOptional(isNonNegative),
+  presetId: isOptional(isNullable(isString)),
+  phaseIndex: isOptional(isNonNegative),
+  countUp: isOptional(isBoolean),
+  timeElapsed: isOptional(isNonNegative),
+  inOvertime: isOptional(isBoolean),
+  timeOvertime: isOptional(isNonNegative),
+  extension: isOptional(isNonNegative),
+  taskId: isOptional(isNullable(isString))
+};
+
+export const preferencesSchema: Schema<UserPreferences> = {
+  theme: isOneOf('light', 'dark', 'system'),
+  notifications: isBoolean,
+  sound: isBoolean,
+  autoStartBreaks: isBoolean,
+  autoStartPomodoros: isBoolean,
+  autoStartCountdown: isNonNegative,
+  maxAutoStartPomodoros: isNonNegative,
+  overtime: isBoolean,
+  maxOvertime: isNonNegative,
+  dayStartHour: value => isNumber(value) && (value as number) >= 0 && (value as number) < 24,
+  streakMinimumPomodoros: isNonNegative,
+  autoBackup: isBoolean,
+  autoBackupIntervalHours: isNonNegative,
+  autoBackupKeep: isNonNegative,
+  syncEnabled: isBoolean
+};
+
+const phaseDefinitionSchema: Schema<PhaseDefinition> = {
+  id: isString,
+  name: isString,
+  duration: value => isNumber(value) && (value as number) > 0,
+  color: isOneOf('blue', 'green', 'purple', 'orange', 'red', 'teal', 'pink', 'gray'),
+  sound: isOneOf('high', 'medium', 'low', 'none'),
+  countsAsFocus: isBoolean
+};
+
+const flowtimeBreakStepSchema: Schema<FlowtimeBreakStep> = {
+  focusMinutes: isNonNegative,
+  breakMinutes: isNonNegative
+};
+
+const flowtimeSchema: Schema<FlowtimeConfig> = {
+  breakRule: isOneOf('ratio', 'table'),
+  breakRatio: value => isNumber(value) && (value as number) >= 1,
+  breakTable: isArrayOf(value => validateRecord(value, flowtimeBreakStepSchema).valid),
+  maxBreak: isNonNegative,
+  target: isNonNegative
+};
+
+export const timerConfigSchema: Schema<TimerConfig> = {
+  focusDuration: isNonNegative,
+  breakDuration: isNonNegative,
+  longBreakDuration: isNonNegative,
+  sessionsUntilLongBreak: isNonNegative,
+  presetId: isOptional(isNullable(isString)),
+  sequence: isOptional(isNullable(isArrayOf(value => validateRecord(value, phaseDefinitionSchema).valid))),
+  mode: isOptional(isOneOf('pomodoro', 'flowtime')),
+  flowtime: isOptional(value => validateRecord(value, flowtimeSchema).valid)
+};
+
+export const presetSchema: Schema<TimerPreset> = {
+  id: isString,
+  name: isString,
+  focusDuration: isNonNegative,
+  breakDuration: isNonNegative,
+  longBreakDuration: isNonNegative,
+  sessionsUntilLongBreak: isNonNegative
+};
+
+export const goalsSchema: Schema<FocusGoals> = {
+  dailyPomodoros: isNonNegative,
+  weeklyFocusHours: isNonNegative,
+  streakFromDailyGoal: isBoolean
+};
+
+export const statisticsSchema: Schema<Statistics> = {
+  totalFocusTime: isNonNegative,
+  totalBreakTime: isNonNegative,
+  completedSessions: isNonNegative,
+  completionRate: isNonNegative,
+  dailyStreak: isNonNegative,
+  longestStreak: isNonNegative,
+  lastSessionDate: isNullable(isString)
+};
+
+export const backupSchema: Schema<BackupSnapshot> = {
+  id: isString,
+  createdAt: isDate,
+  reason: isOneOf('manual', 'scheduled', 'beforeImport'),
+  data: isString
+};
+
+export const syncStateSchema: Schema<SyncState> = {
+  deviceId: isString,
+  cursors: isObject,
+  fingerprints: isObject,
+  queue: Array.isArray,
+  lastSyncedAt: isNullable(isDate)
+};
+
+const isTier = isOneOf('free', 'premium', 'pro');
+
+const trialSchema: Schema<SubscriptionTrial> = {
+  tier: isTier,
+  endsAt: isDate
+};
+
+export const subscriptionSchema: Schema<Subscription> = {
+  tier: isTier,
+  expiresAt: isNullable(isDate),
+  trial: isNullable(value => validateRecord(value, trialSchema).valid),
+  hasUsedTrial: isBoolean
+};
+
+const isCalendarSource: Check = value => {
+  if (!isObject(value)) return false;
+  return (value.type === 'file' && isString(value.name)) || (value.type === 'url' && isString(value.url));
+};
+
+export const calendarSchema: Schema<StoredCalendar> = {
+  source: isCalendarSource,
+  ics: isString,
+  importedAt: isDate
+};
+
+export const plannedBlockSchema: Schema<PlannedBlock> = {
+  start: isDate,
+  end: isDate
+};
+
+export const profileSchema: Schema<Profile> = {
+  id: isString,
+  name: isString,
+  createdAt: isDate
+};
+
+export type RecordResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; reason: string };
+
+// Check a record against its schema; every field has to pass
+export const validateRecord = <T>(value: unknown, schema: Schema<T>): RecordResult<T> => {
+  if (!isObject(value)) {
+    return { valid: false, reason: 'Not an object' };
+  }
+  const invalidFields = (Object.keys(schema) as (keyof T & string)[])
+    .filter(field => !schema[field](value[field]));
+  if (invalidFields.length > 0) {
+    return { valid: false, reason: `Invalid fields: ${invalidFields.join(', ')}` };
+  }
+  return { valid: true, value: value as T };
+};
+
+export interface SettingsResult<T> {
+  value: Partial<T>;
+  invalidFields: Partial<Record<keyof T, unknown>>;
+}
+
+// Keep the valid fields of a settings object; missing fields are not errors
+export const validateSettings = <T>(value: unknown, schema: Schema<T>): SettingsResult<T> | null => {
+  if (!isObject(value)) return null;
+
+  const result: SettingsResult<T> = { value: {}, invalidFields: {} };
+  (Object.keys(schema) as (keyof T & string)[]).forEach(field => {
+    if (value[field] === undefined) return;
+    if (schema[field](value[field])) {
+      result.value[field] = value[field] as T[typeof field];
+    } else {
+      result.invalidFields[field] = value[field];
+    }
+  });
+  return result;
+};
+
+// Split a list into valid records and rejected ones with reasons
+export const validateRecords = <T>(
+  value: unknown,
+  schema: Schema<T>
+): { valid: T[]; invalid: { record: unknown; reason: string }[] } | null => {
+  if (!Array.isArray(value)) return null;
+
+  const valid: T[] = [];
+  const invalid: { record: unknown; reason: string }[] = [];
+  value.forEach(record => {
+    const result = validateRecord(record, schema);
+    if (result.valid) {
+      valid.push(result.value);
+    } else {
+      invalid.push({ record, reason: result.reason });
+    }
+  });
+  return { valid, invalid };
+};
@@ -0,0 +1,17 @@
+// Where an imported meeting calendar came from
+export type CalendarSource =
+  | { type: 'file'; name: string }
+  | { type: 'url'; url: string };
+
+// Meeting calendar as imported; it is parsed when needed
+export interface StoredCalendar {
+  source: CalendarSource;
+  ics: string;
+  importedAt: string;
+}
+
+// Focus block the running timer is expected to reach, shared with the calendar feed
+export interface PlannedBlock {
+  start: string;  // ISO time
+  end: string;
+}
@@ -0,0 +1,41 @@
+export type SyncCollection = 'sessions' | 'config' | 'preferences';
+
+// A record as exchanged with the sync server. Conflicting writes are resolved
+// by last-writer-wins on updatedAt; version is stamped by the server and grows
+// with every accepted write, so clients can pull only what changed.
+export interface SyncRecord<T = unknown> {
+  id: string;  // Session id, or 'default' for config and preferences
+  value: T | null;  // null marks a deleted record
+  updatedAt: string;  // ISO time of the write on the device that made it
+  deviceId: string;  // Breaks ties between writes made at the same time
+  version: number;  // 0 until the server accepts the write
+}
+
+export interface SyncPullResponse {
+  records: SyncRecord[];  // Records with a version above the requested one
+  version: number;  // Latest version on the server
+}
+
+export interface SyncPushRequest {
+  records: SyncRecord[];
+}
+
+export interface SyncPushResponse {
+  records: SyncRecord[];  // The server's copy of each pushed record after resolving conflicts
+  version: number;
+}
+
+// Local change waiting to be pushed
+export interface QueuedChange {
+  collection: SyncCollection;
+  record: SyncRecord;
+}
+
+// Client-side sync bookkeeping
+export interface SyncState {
+  deviceId: string;
+  cursors: Record<SyncCollection, number>;  // Latest server version pulled for each collection
+  fingerprints: Record<SyncCollection, Record<string, string>>;  // Hash of each record as last synced
+  queue: QueuedChange[];
+  lastSyncedAt: string | null;
+}
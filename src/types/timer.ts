@@ -3,14 +3,93 @@ export interface TimerConfig {
   breakDuration: number;  // Duration in minutes
   longBreakDuration: number;  // Duration in minutes
   sessionsUntilLongBreak: number;
+  presetId?: string | null;  // Preset the durations came from; null once edited by hand
+  sequence?: PhaseDefinition[] | null;  // Custom cycle of phases; without one the timer runs focus, break and long break
+  mode?: TimerMode;  // Missing for configs saved before Flowtime, which run pomodoros
+  flowtime?: FlowtimeConfig;
+}
+
+export type TimerDurations = Omit<TimerConfig, 'presetId' | 'sequence' | 'mode' | 'flowtime'>;
+
+// Pomodoros count down fixed phases; Flowtime counts focus up until it is
+// stopped and earns a break from its length
+export type TimerMode = 'pomodoro' | 'flowtime';
+
+// Focus of up to focusMinutes earns breakMinutes
+export interface FlowtimeBreakStep {
+  focusMinutes: number;
+  breakMinutes: number;
+}
+
+export interface FlowtimeConfig {
+  breakRule: 'ratio' | 'table';
+  breakRatio: number;  // Focus time is divided by this to give the break
+  breakTable: FlowtimeBreakStep[];  // Focus longer than every step earns the break of the longest one
+  maxBreak: number;  // Longest earned break in minutes, 0 for no cap
+  target: number;  // Soft focus target in minutes shown on the progress ring, 0 for none
+}
+
+export type PhaseColor = 'blue' | 'green' | 'purple' | 'orange' | 'red' | 'teal' | 'pink' | 'gray';
+
+export type PhaseSound = 'high' | 'medium' | 'low' | 'none';
+
+// One phase of a custom sequence
+export interface PhaseDefinition {
+  id: string;
+  name: string;
+  duration: number;  // Duration in minutes
+  color: PhaseColor;
+  sound: PhaseSound;  // Chime played when the phase begins
+  countsAsFocus: boolean;  // Recorded and counted in statistics as focus time
+}
+
+// Named set of durations the timer can switch to
+export interface TimerPreset extends TimerDurations {
+  id: string;
+  name: string;
+}
+
+export type TimerPhase = 'focus' | 'break' | 'longBreak';
+
+export type SessionOutcome = 'completed' | 'abandoned' | 'skipped';
+
+export type InterruptionType = 'internal' | 'external';
+
+export interface Interruption {
+  timestamp: string;  // ISO timestamp
+  type: InterruptionType;
+  note?: string;
+}
+
+export interface FocusGoals {
+  dailyPomodoros: number;  // Completed pomodoros per day, 0 disables the goal
+  weeklyFocusHours: number;  // Focus hours per week, 0 disables the goal
+  streakFromDailyGoal: boolean;  // Only days meeting the daily goal count towards the streak
 }
 
 export interface TimerState {
   isRunning: boolean;
   isPaused: boolean;
-  currentPhase: 'focus' | 'break' | 'longBreak';
+  currentPhase: TimerPhase;  // Custom phases are focus when they count as focus, otherwise break
   timeRemaining: number;  // Time in seconds
   completedSessions: number;
+  phaseStartTime: number | null;  // Epoch milliseconds when the phase was started
+  phaseEndTime: number | null;  // Epoch milliseconds when the running phase ends
+  pausedAt: number | null;  // Epoch milliseconds when the timer was paused
+  totalPausedTime: number;  // Accumulated pause time for the phase in milliseconds
+  pauseCount: number;  // Times the phase was paused
+  autoStartAt: number | null;  // Epoch milliseconds when a pending phase auto-starts
+  autoStartedPomodoros: number;  // Focus phases auto-started in a row
+  interruptions: Interruption[];  // Interruptions logged during the phase
+  phaseDuration?: number;  // Length in seconds when it differs from the config, e.g. a shortened phase
+  presetId?: string | null;  // Preset of a phase that keeps running after another one was chosen
+  phaseIndex?: number;  // Position in the custom sequence
+  countUp?: boolean;  // Flowtime focus, which runs until it is stopped and has no end time
+  timeElapsed?: number;  // Seconds counted so far by a count-up phase
+  inOvertime?: boolean;  // Focus that reached zero and runs on until the break is confirmed
+  timeOvertime?: number;  // Seconds past the planned end, excluding pauses
+  extension?: number;  // Seconds added to the phase with the extend controls
+  taskId?: string | null;  // Task that was active when the focus phase started
 }
 
 export interface TimerStats {
@@ -26,6 +105,26 @@ export interface UserPreferences {
   sound: boolean;
   autoStartBreaks: boolean;
   autoStartPomodoros: boolean;
+  autoStartCountdown: number;  // Seconds before an auto-started phase begins, 0 starts it immediately
+  maxAutoStartPomodoros: number;  // Focus phases auto-started in a row, 0 for no limit
+  overtime: boolean;  // Let focus run past zero until the break is confirmed
+  maxOvertime: number;  // Minutes of overtime before the break starts anyway, 0 for no limit
+  dayStartHour: number;  // Local hour (0-23) at which a new day begins for streaks
+  streakMinimumPomodoros: number;  // Completed pomodoros needed for a day to count towards the streak
+  autoBackup: boolean;  // Keep scheduled snapshots of all data in storage
+  autoBackupIntervalHours: number;  // Time between scheduled snapshots
+  autoBackupKeep: number;  // Number of snapshots kept, oldest are dropped first
+  syncEnabled: boolean;  // Sync sessions, config and preferences with the server
+}
+
+export interface Task {
+  id: string;
+  title: string;
+  notes: string;
+  estimatedPomodoros: number;
+  completed: boolean;
+  order: number;
+  createdAt: string;
 }
 
 // Subscription tier types
@@ -38,3 +137,15 @@ export interface SubscriptionFeatures {
   advancedAnalytics: boolean;
   premiumThemes: boolean;
 }
+
+export interface SubscriptionTrial {
+  tier: SubscriptionTier;
+  endsAt: string;  // ISO time the trial ends
+}
+
+export interface Subscription {
+  tier: SubscriptionTier;  // Paid tier
+  expiresAt: string | null;  // ISO end of the paid period, null if it does not expire
+  trial: SubscriptionTrial | null;
+  hasUsedTrial: boolean;  // Each subscriber gets one trial
+}